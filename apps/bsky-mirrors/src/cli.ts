@@ -0,0 +1,495 @@
+// src/cli.ts
+import fs from 'fs/promises';
+import { CrossPostAgent } from './cross-post-agent';
+import { findConfigFile, loadAgentConfig } from './mirror-config';
+import { captureFixture, verifyFixtures } from './scraper-fixtures';
+import { BlueskyService } from './services/bluesky-service';
+import { DryRunRecorder } from './services/dry-run-recorder';
+import {
+  configureLogging,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  logger,
+  setLogDestination,
+} from './services/logger';
+import { MirrorMetrics } from './services/mirror-metrics';
+import {
+  defaultUnhealthyAfterMs,
+  MonitoringServer,
+} from './services/monitoring-server';
+import { ScraperFactory } from './services/scraper-factory';
+import { SeenIndex } from './services/seen-index-service';
+import { StorageService } from './services/storage-service';
+import { AccountPair, AgentConfig, LoggingOptions } from './types';
+
+// Exit codes, so cron jobs and systemd units can tell failures apart
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1; // The command ran but something failed
+export const EXIT_USAGE = 2; // Unknown command, option or mirror
+export const EXIT_CONFIG = 3; // The mirror configuration is missing or invalid
+
+const USAGE = `Usage: bsky-mirrors [--config <file>] <command> [args]
+
+Commands:
+  run                     Start the agent and check every mirror on a schedule (default)
+  check <mirror>          Check one mirror once and post anything new
+  list-failed [mirror]    List posts that failed to mirror or were dead-lettered
+  repost <mirror> <file>  Post a stored tweet file from a mirror's storage directory
+  validate-config         Check the mirror configuration without logging in
+  login-test [mirror]     Log in to Bluesky for each mirror and report the result
+  fixtures capture <platform> <url> <name>
+                          Save a live page as a scraper fixture with its golden file
+  fixtures verify [platform|platform/name]
+                          Run the scrapers on saved fixtures offline and compare
+                          the posts with the golden files
+
+A mirror is named by its source URL or the account handle, e.g. realDonaldTrump.
+
+Options:
+  --config <file>  Config file to use instead of MIRRORS_CONFIG or mirrors.yaml
+  --dry-run        With check or repost: print the Bluesky records that would be
+                   created as JSON instead of uploading or posting anything
+  --output <file>  With --dry-run: write the records to a file, not stdout
+  --log-level <level>   debug, info, warn or error (overrides the config)
+  --log-format <format> text or json (overrides the config)
+  --update         With fixtures verify: rewrite the golden files instead
+  -h, --help       Show this help
+
+Exit codes: 0 success, 1 failure, 2 usage error, 3 configuration error.`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  configPath?: string;
+  dryRun: boolean;
+  outputPath?: string;
+  update: boolean;
+  logging: Partial<LoggingOptions>;
+  command: string;
+  args: string[];
+}
+
+/**
+ * Runs a CLI command and resolves to the process exit code. `run` only
+ * resolves once the agent has been shut down by SIGINT or SIGTERM.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (options.command === 'help') {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (recordsOnStdout(options)) {
+    // Keep stdout for the planned records so it can be piped
+    setLogDestination(process.stderr);
+  }
+  configureLogging(options.logging);
+
+  if (options.command === 'fixtures') {
+    // Fixtures don't touch any mirror, so they need no configuration
+    try {
+      return await fixturesCommand(options);
+    } catch (error) {
+      if (error instanceof UsageError) {
+        console.error(`${error.message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+      }
+      logger.error('fixtures failed', error);
+      return EXIT_FAILURE;
+    }
+  }
+  if (options.update) {
+    console.error(`--update is only supported by fixtures verify\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  let config: AgentConfig;
+  try {
+    config = loadAgentConfig(options.configPath);
+  } catch (error) {
+    console.error(error.message);
+    return EXIT_CONFIG;
+  }
+  // Command line options win over the config file
+  configureLogging({ ...config.logging, ...options.logging });
+
+  try {
+    if (options.dryRun && !['check', 'repost'].includes(options.command)) {
+      throw new UsageError(`--dry-run is not supported by ${options.command}`);
+    }
+    if (options.outputPath && !options.dryRun) {
+      throw new UsageError('--output needs --dry-run');
+    }
+
+    switch (options.command) {
+      case 'run':
+        expectArgs(options, 0);
+        return await runCommand(config);
+      case 'check':
+        expectArgs(options, 1);
+        return await checkCommand(
+          config,
+          findMirror(config, options.args[0]),
+          options
+        );
+      case 'list-failed':
+        expectArgs(options, 0, 1);
+        return await listFailedCommand(mirrorsFor(config, options.args[0]));
+      case 'repost':
+        expectArgs(options, 2);
+        return await repostCommand(
+          config,
+          findMirror(config, options.args[0]),
+          options.args[1],
+          options
+        );
+      case 'validate-config':
+        expectArgs(options, 0);
+        return validateConfigCommand(config, options.configPath);
+      case 'login-test':
+        expectArgs(options, 0, 1);
+        return await loginTestCommand(mirrorsFor(config, options.args[0]));
+      default:
+        throw new UsageError(`Unknown command: ${options.command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    logger.error(`${options.command} failed`, error);
+    return EXIT_FAILURE;
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let configPath: string | undefined;
+  let outputPath: string | undefined;
+  let dryRun = false;
+  let update = false;
+  const logging: Partial<LoggingOptions> = {};
+  const positional: string[] = [];
+  const valueOf = (option: string, i: number) => {
+    const value = argv[i];
+    if (!value) throw new UsageError(`${option} needs a value`);
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      return {
+        command: 'help',
+        args: [],
+        dryRun: false,
+        update: false,
+        logging,
+      };
+    } else if (arg === '--config') {
+      configPath = argv[++i];
+      if (!configPath) throw new UsageError('--config needs a file path');
+    } else if (arg.startsWith('--config=')) {
+      configPath = arg.slice('--config='.length);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--update') {
+      update = true;
+    } else if (arg === '--output') {
+      outputPath = argv[++i];
+      if (!outputPath) throw new UsageError('--output needs a file path');
+    } else if (arg.startsWith('--output=')) {
+      outputPath = arg.slice('--output='.length);
+    } else if (arg === '--log-level') {
+      logging.level = parseLogLevel(valueOf(arg, ++i));
+    } else if (arg.startsWith('--log-level=')) {
+      logging.level = parseLogLevel(arg.slice('--log-level='.length));
+    } else if (arg === '--log-format') {
+      logging.format = parseLogFormat(valueOf(arg, ++i));
+    } else if (arg.startsWith('--log-format=')) {
+      logging.format = parseLogFormat(arg.slice('--log-format='.length));
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command = 'run', ...args] = positional;
+  return { configPath, dryRun, outputPath, update, logging, command, args };
+}
+
+function parseLogLevel(value: string): LoggingOptions['level'] {
+  const level = LOG_LEVELS.find((level) => level === value);
+  if (!level) throw new UsageError(`Unknown log level: ${value}`);
+  return level;
+}
+
+function parseLogFormat(value: string): LoggingOptions['format'] {
+  if (!LOG_FORMATS.includes(value)) {
+    throw new UsageError(`Unknown log format: ${value}`);
+  }
+  return value as LoggingOptions['format'];
+}
+
+function expectArgs(options: CliOptions, min: number, max = min): void {
+  if (options.args.length < min || options.args.length > max) {
+    throw new UsageError(
+      `Wrong number of arguments for ${options.command}: ${options.args.length}`
+    );
+  }
+}
+
+/**
+ * Finds a mirror by its source URL or by the handle at the end of it,
+ * ignoring case and a leading `@`.
+ */
+function findMirror(config: AgentConfig, name: string): AccountPair {
+  const handle = name.replace(/^@/, '').toLowerCase();
+  const pair = config.accountPairs.find(
+    (pair) =>
+      pair.twitter === name ||
+      pair.twitter
+        .replace(/\/+$/, '')
+        .split('/')
+        .pop()
+        ?.replace(/^@/, '')
+        .toLowerCase() === handle
+  );
+  if (!pair) {
+    throw new UsageError(`No mirror configured for ${name}`);
+  }
+  return pair;
+}
+
+function mirrorsFor(config: AgentConfig, name?: string): AccountPair[] {
+  return name ? [findMirror(config, name)] : config.accountPairs;
+}
+
+async function createAgent(
+  config: AgentConfig,
+  pairs: AccountPair[],
+  dryRun?: DryRunRecorder,
+  metrics?: MirrorMetrics
+): Promise<CrossPostAgent> {
+  const blueskyService = new BlueskyService(dryRun, undefined, metrics);
+  await blueskyService.initialize(pairs);
+
+  // Ensure storage directories exist
+  for (const pair of pairs) {
+    await fs.mkdir(pair.storageDir, { recursive: true });
+  }
+
+  return new CrossPostAgent(
+    config,
+    new ScraperFactory(config.browser),
+    blueskyService,
+    dryRun,
+    metrics
+  );
+}
+
+async function runCommand(config: AgentConfig): Promise<number> {
+  const metrics = new MirrorMetrics();
+  const monitoring =
+    config.monitoring &&
+    new MonitoringServer(
+      metrics,
+      config.monitoring,
+      config.monitoring.unhealthyAfterMs ?? defaultUnhealthyAfterMs(config)
+    );
+  await monitoring?.start();
+
+  const agent = await createAgent(
+    config,
+    config.accountPairs,
+    undefined,
+    metrics
+  );
+  await agent.start();
+
+  return new Promise((resolve) => {
+    const shutdown = async () => {
+      logger.info('Cleaning up...');
+      await agent.cleanup();
+      await monitoring?.stop();
+      resolve(EXIT_OK);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+}
+
+async function checkCommand(
+  config: AgentConfig,
+  pair: AccountPair,
+  options: CliOptions
+): Promise<number> {
+  const dryRun = options.dryRun ? new DryRunRecorder() : undefined;
+  const agent = await createAgent(config, [pair], dryRun);
+  try {
+    const result = await agent.checkOnce(pair);
+    printResult(
+      options,
+      `${pair.twitter}: ${result.newPosts} new, ${result.posted} ${
+        dryRun ? 'planned' : 'posted'
+      }, ${result.failed} failed`
+    );
+    await dryRun?.write(options.outputPath);
+    return result.failed > 0 ? EXIT_FAILURE : EXIT_OK;
+  } finally {
+    await agent.cleanup();
+  }
+}
+
+function recordsOnStdout(options: CliOptions): boolean {
+  return options.dryRun && !options.outputPath;
+}
+
+// Results are for people, so they go to stderr while stdout carries records
+function printResult(options: CliOptions, line: string): void {
+  (recordsOnStdout(options) ? process.stderr : process.stdout).write(
+    line + '\n'
+  );
+}
+
+async function listFailedCommand(pairs: AccountPair[]): Promise<number> {
+  let total = 0;
+  for (const pair of pairs) {
+    const seenIndex = await SeenIndex.load(pair.storageDir);
+    const entries = seenIndex
+      .values()
+      .filter(
+        (entry) =>
+          entry.outcome === 'failed' || entry.outcome === 'dead-lettered'
+      );
+    if (entries.length === 0) continue;
+
+    console.log(`${pair.twitter} (${pair.storageDir}):`);
+    for (const entry of entries) {
+      const file = StorageService.tweetFileName(entry.timestamp);
+      const retry = (await StorageService.loadTweet(file, pair.storageDir))
+        ?.retry;
+      const details = retry
+        ? `attempts=${retry.attempts} ${retry.lastErrorKind}: ${retry.lastError}` +
+          (retry.nextAttemptAt ? ` next=${retry.nextAttemptAt}` : '')
+        : 'no retry state';
+      console.log(
+        `  ${entry.outcome.padEnd(13)} ${entry.id}  ${file}  ${details}`
+      );
+    }
+    total += entries.length;
+  }
+
+  console.log(`${total} failed post(s)`);
+  return EXIT_OK;
+}
+
+async function repostCommand(
+  config: AgentConfig,
+  pair: AccountPair,
+  tweetFile: string,
+  options: CliOptions
+): Promise<number> {
+  const dryRun = options.dryRun ? new DryRunRecorder() : undefined;
+  const agent = await createAgent(config, [pair], dryRun);
+  try {
+    const posted = await agent.postStoredTweet(config, tweetFile, pair.twitter);
+    await dryRun?.write(options.outputPath);
+    printResult(
+      options,
+      posted
+        ? `Posted ${tweetFile} for ${pair.twitter}`
+        : `Failed to post ${tweetFile} for ${pair.twitter}`
+    );
+    return posted ? EXIT_OK : EXIT_FAILURE;
+  } finally {
+    await agent.cleanup();
+  }
+}
+
+function validateConfigCommand(
+  config: AgentConfig,
+  configPath?: string
+): number {
+  const source = findConfigFile(configPath) ?? 'MIRROR_<n>_* environment';
+  if (config.accountPairs.length === 0) {
+    console.error(`${source}: no mirrors configured`);
+    return EXIT_CONFIG;
+  }
+
+  console.log(`${source} is valid:`);
+  for (const pair of config.accountPairs) {
+    console.log(
+      `  ${pair.twitter} (${pair.platform}) -> ${pair.bluesky.identifier}, storage ${pair.storageDir}`
+    );
+  }
+  return EXIT_OK;
+}
+
+async function loginTestCommand(pairs: AccountPair[]): Promise<number> {
+  const blueskyService = new BlueskyService();
+  let failures = 0;
+  for (const pair of pairs) {
+    try {
+      const how = await blueskyService.connect(pair);
+      console.log(`OK    ${pair.bluesky.identifier} (${pair.twitter}, ${how})`);
+    } catch (error) {
+      failures++;
+      console.error(
+        `FAIL  ${pair.bluesky.identifier} (${pair.twitter}): ${error.message}`
+      );
+    }
+  }
+  return failures > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function fixturesCommand(options: CliOptions): Promise<number> {
+  const [action, ...args] = options.args;
+  if (action === 'capture') {
+    if (options.update) {
+      throw new UsageError('--update is only supported by fixtures verify');
+    }
+    if (args.length !== 3) {
+      throw new UsageError(
+        `Wrong number of arguments for fixtures capture: ${args.length}`
+      );
+    }
+    const [platform, url, name] = args;
+    const base = await captureFixture(platform, url, name);
+    console.log(`Saved ${base}.html and ${base}.golden.json`);
+    return EXIT_OK;
+  }
+  if (action !== 'verify') {
+    throw new UsageError(`Unknown fixtures command: ${action ?? '(none)'}`);
+  }
+  if (args.length > 1) {
+    throw new UsageError(
+      `Wrong number of arguments for fixtures verify: ${args.length}`
+    );
+  }
+
+  const results = await verifyFixtures(args[0], options.update);
+  let failures = 0;
+  for (const result of results) {
+    if (result.mismatch) {
+      failures++;
+      console.error(`FAIL  ${result.name}: ${result.mismatch}`);
+    } else {
+      console.log(
+        `${result.updated ? 'UPDATED' : 'OK   '} ${result.name} (${
+          result.posts
+        } posts)`
+      );
+    }
+  }
+  console.log(
+    `${results.length - failures} of ${results.length} fixture(s) passed`
+  );
+  return failures > 0 ? EXIT_FAILURE : EXIT_OK;
+}
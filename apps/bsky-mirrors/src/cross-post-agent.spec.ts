@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CrossPostAgent } from './cross-post-agent';
+import { BlueskyService, PostResult } from './services/bluesky-service';
+import { DryRunRecorder } from './services/dry-run-recorder';
+import { ScraperFactory } from './services/scraper-factory';
+import { StorageService } from './services/storage-service';
+import { AccountPair, TweetData } from './types';
+
+function tweet(id: string, timestamp: string): TweetData {
+  return {
+    id,
+    text: `post ${id}`,
+    timestamp,
+    images: [],
+    videos: [],
+    postedToBluesky: false,
+    sourceAccount: 'someone',
+    platform: 'twitter',
+  };
+}
+
+describe('CrossPostAgent dry runs', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('plans new posts without writing to the storage directory', async () => {
+    // A stored post but no seen index yet, so loading the index seeds it
+    const stored = tweet('1', '2026-10-16T10:00:00.000Z');
+    stored.postedToBluesky = true;
+    await StorageService.saveTweet(stored, storageDir);
+    const before = await fs.readdir(storageDir);
+
+    const pair: AccountPair = {
+      twitter: 'someone',
+      platform: 'twitter',
+      bluesky: { identifier: 'someone.bsky.social', password: 'secret' },
+      storageDir,
+      filters: { excludeKeywords: ['post 3'] },
+    };
+    const scraperFactory = {
+      getScraperForPlatform: async () => ({
+        getLatestTweets: async () => [
+          tweet('3', '2026-10-16T12:00:00.000Z'),
+          tweet('2', '2026-10-16T11:00:00.000Z'),
+          stored,
+        ],
+      }),
+    } as unknown as ScraperFactory;
+    const planned: string[] = [];
+    const blueskyService = {
+      isDuplicateWithRecentBlueskyPosts: () => false,
+      postTweet: async (post: TweetData): Promise<PostResult> => {
+        planned.push(post.id);
+        const ref = { uri: `at://dry-run/${post.id}`, cid: post.id };
+        return { success: true, ...ref, root: ref };
+      },
+    } as unknown as BlueskyService;
+
+    const agent = new CrossPostAgent(
+      { accountPairs: [pair], CHECK_INTERVAL_MS: 60_000 },
+      scraperFactory,
+      blueskyService,
+      new DryRunRecorder()
+    );
+    const result = await agent.checkOnce(pair);
+
+    expect(result).toEqual({ newPosts: 2, posted: 1, failed: 0 });
+    expect(planned).toEqual(['2']);
+    expect(await fs.readdir(storageDir)).toEqual(before);
+  });
+});
@@ -1,76 +1,275 @@
-import { AccountPair, AgentConfig, TweetData } from './types';
+import { AccountPair, AgentConfig, BlueskyMirror, MirrorOutcome, ReplyRefs, TweetData } from './types';
 import { StorageService } from './services/storage-service';
-import { BlueskyService } from './services/bluesky-service';
+import { BlueskyService, PostResult } from './services/bluesky-service';
 import { ScraperFactory } from './services/scraper-factory';
+import { SeenIndex } from './services/seen-index-service';
+import { DeletionSyncService } from './services/deletion-sync-service';
+import { applyRepostPolicy } from './services/repost-policy';
+import { rejectingFilter } from './services/content-filter';
+import { DEFAULT_SCHEDULER_OPTIONS, MirrorScheduler } from './services/mirror-scheduler';
+import { DEFAULT_RETRY_OPTIONS, RetryQueue } from './services/retry-queue';
+import { DryRunRecorder } from './services/dry-run-recorder';
+import { MirrorMetrics } from './services/mirror-metrics';
+import { logger, withLogContext } from './services/logger';
+import { debugDirFor } from './services/debug-artifacts';
+import { ScrapeMonitor } from './services/scrape-monitor';
+import { createAlertSinks } from './services/alert-sinks';
+
+const log = logger.child({ component: 'agent' });
+
+export interface CheckResult {
+  newPosts: number;
+  posted: number;
+  failed: number;
+}
 
 export class CrossPostAgent {
   private readonly config: AgentConfig;
-  private lastCheckedTweets: Map<string, TweetData[]>;
+  private seenIndexes: Map<string, SeenIndex>;
+  private deletionSync: DeletionSyncService;
+  private retryQueue: RetryQueue;
+  private scheduler?: MirrorScheduler;
+  private scrapeMonitor?: ScrapeMonitor;
+  // Reply targets for posts planned earlier in a dry run, by source ID
+  private plannedReplyRefs = new Map<string, ReplyRefs>();
+  // Checks run so far per mirror, numbering the cycles in the logs
+  private cycles = new Map<string, number>();
 
+  // Pass the same dry run recorder given to the BlueskyService to plan posts
+  // without storing anything or touching the seen indexes. Metrics should
+  // be the instance given to the BlueskyService too.
   constructor(
     config: AgentConfig, 
     private scraperFactory: ScraperFactory,
-    public blueskyService: BlueskyService
+    public blueskyService: BlueskyService,
+    private dryRun?: DryRunRecorder,
+    private metrics?: MirrorMetrics
   ) {
     this.config = config;
     
-    this.lastCheckedTweets = new Map();
+    this.seenIndexes = new Map();
+    this.deletionSync = new DeletionSyncService(blueskyService);
+    this.retryQueue = new RetryQueue({ ...DEFAULT_RETRY_OPTIONS, ...config.retry });
+    if (config.alerts && !dryRun) {
+      this.scrapeMonitor = new ScrapeMonitor(config.alerts.failureThreshold, createAlertSinks(config.alerts));
+    }
   }
 
-  private async findNewTweets(latestTweets: TweetData[], sourceAccount: string): Promise<TweetData[]> {
-    if (!this.lastCheckedTweets.has(sourceAccount)) {
-      this.lastCheckedTweets.set(sourceAccount, []);
+  private async getSeenIndex(pair: AccountPair): Promise<SeenIndex> {
+    let index = this.seenIndexes.get(pair.storageDir);
+    if (!index) {
+      index = await SeenIndex.load(pair.storageDir, !!this.dryRun);
+      this.seenIndexes.set(pair.storageDir, index);
     }
+    return index;
+  }
 
-    const lastChecked = this.lastCheckedTweets.get(sourceAccount)!;
-    const newTweets = latestTweets.filter(
-      tweet => !lastChecked.some(cached => cached.id === tweet.id)
-    );
+  private async findNewTweets(latestTweets: TweetData[], pair: AccountPair): Promise<TweetData[]> {
+    const index = await this.getSeenIndex(pair);
+    return latestTweets.filter(tweet => !index.has(tweet.id));
+  }
+
+  // Self-replies attach to the mirrored copy of their parent when we have one
+  private replyRefsFor(tweet: TweetData, seenIndex: SeenIndex): ReplyRefs | undefined {
+    if (!tweet.inReplyToId) return undefined;
+    const replyTo = seenIndex.replyRefsFor(tweet.inReplyToId);
+    if (!replyTo) {
+      log.info(`Parent ${tweet.inReplyToId} of ${tweet.id} was not mirrored, posting at top level`);
+    }
+    return replyTo;
+  }
+
+  private toBlueskyMirror(result?: PostResult): BlueskyMirror | undefined {
+    if (!result) return undefined;
+    return {
+      posts: result.threadPosts ?? [{ uri: result.uri, cid: result.cid }],
+      root: result.root,
+      postedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Post one source post, store the result and record its outcome. Failures
+   * are classified by the retry queue, which either schedules another
+   * attempt or dead-letters the post. A post the Bluesky service skips as a
+   * duplicate is recorded as such, since it has no refs of its own.
+   */
+  private async postAndRecord(pair: AccountPair, tweet: TweetData, seenIndex: SeenIndex): Promise<MirrorOutcome> {
+    if (this.dryRun) return this.planPost(pair, tweet, seenIndex);
+
+    await seenIndex.record(tweet, 'pending');
+    let outcome: MirrorOutcome;
+    try {
+      const result = await this.blueskyService.postTweet(tweet, pair.twitter, this.replyRefsFor(tweet, seenIndex));
+      delete tweet.retry;
+      if (result) {
+        tweet.bluesky = this.toBlueskyMirror(result);
+        tweet.postedToBluesky = true;
+        outcome = 'posted';
+      } else {
+        outcome = 'duplicate';
+      }
+    } catch (error) {
+      this.metrics?.forMirror(pair.twitter).failure('post');
+      outcome = this.retryQueue.recordFailure(tweet, error);
+      const next = outcome === 'dead-lettered'
+        ? 'dead-lettered'
+        : `retrying at ${tweet.retry?.nextAttemptAt}`;
+      log.error(`Failed to post tweet ${tweet.id} (attempt ${tweet.retry?.attempts}, ${tweet.retry?.lastErrorKind}, ${next})`, error);
+    }
+    await StorageService.saveTweet(tweet, pair.storageDir);
+    await seenIndex.record(tweet, outcome);
+    return outcome;
+  }
+
+  private async planPost(pair: AccountPair, tweet: TweetData, seenIndex: SeenIndex): Promise<MirrorOutcome> {
+    const replyTo = (tweet.inReplyToId && this.plannedReplyRefs.get(tweet.inReplyToId)) || this.replyRefsFor(tweet, seenIndex);
+    try {
+      const mirror = this.toBlueskyMirror(await this.blueskyService.postTweet(tweet, pair.twitter, replyTo));
+      if (!mirror) return 'duplicate';
+      this.plannedReplyRefs.set(tweet.id, { root: mirror.root, parent: mirror.posts[mirror.posts.length - 1] });
+      return 'posted';
+    } catch (error) {
+      log.error(`Failed to plan tweet ${tweet.id}`, error);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Look up the Bluesky posts created for a source post, e.g. to link to,
+   * reply to or delete the mirrored copy.
+   */
+  async getBlueskyMirror(sourceAccount: string, sourceId: string): Promise<BlueskyMirror | undefined> {
+    const pair = this.config.accountPairs.find(pair => pair.twitter === sourceAccount);
+    if (!pair) {
+      throw new Error(`No account pair found for ${sourceAccount}`);
+    }
+    return (await this.getSeenIndex(pair)).getBlueskyMirror(sourceId);
+  }
+
+  /**
+   * Scrape a mirror's source and post anything new. Resolves to the number of
+   * new source posts found, which drives the scheduler's adaptive polling.
+   */
+  async checkAndPost(pair: AccountPair): Promise<number> {
+    try {
+      return (await this.checkOnce(pair)).newPosts;
+    } catch (error) {
+      log.error('Error in check and post cycle', error, { mirror: pair.twitter });
+      return 0;
+    }
+  }
 
-    this.lastCheckedTweets.set(sourceAccount, latestTweets);
-    return newTweets;
+  /**
+   * One check of a mirror: scrape, sync deletions, retry due failures and
+   * post what's new. Unlike checkAndPost, errors that abort the cycle are
+   * thrown so callers such as the CLI can report them.
+   */
+  async checkOnce(pair: AccountPair): Promise<CheckResult> {
+    const cycle = (this.cycles.get(pair.twitter) ?? 0) + 1;
+    this.cycles.set(pair.twitter, cycle);
+    return withLogContext(
+      { mirror: pair.twitter, cycle },
+      () => this.runCheck(pair),
+      debugDirFor(pair)
+    );
   }
 
-  async checkAndPost(pair: AccountPair): Promise<void> {
+  private async runCheck(pair: AccountPair): Promise<CheckResult> {
+    const result: CheckResult = { newPosts: 0, posted: 0, failed: 0 };
+    const countOutcome = (outcome: MirrorOutcome) => {
+      if (outcome === 'posted') result.posted++;
+      else if (outcome !== 'duplicate') result.failed++;
+    };
+
+    log.info(`Checking ${pair.twitter} (${pair.platform})`);
+    
+    const metrics = this.metrics?.forMirror(pair.twitter);
+    let latestTweets: TweetData[];
     try {
-      console.log(`===== checkAndPost ${pair.twitter} (${pair.platform}) =====`);
-      
       const scraper = await this.scraperFactory.getScraperForPlatform(pair.platform);
-      const latestTweets = await scraper.getLatestTweets(pair.twitter);
-      const newTweets = await this.findNewTweets(latestTweets, pair.twitter);
-
-      console.log(`checkAndPost(): ${newTweets.length} of ${latestTweets.length} ${pair.twitter} tweets are new`);
-      
-      let toPost = [];
-      for (const tweet of newTweets) {
-        try {
-          if (this.blueskyService.isDuplicateWithRecentBlueskyPosts(tweet.text, pair.twitter)) {
-            console.log(`Abandoning further updates, duplicate tweet detected: ${tweet.text}`);
-            break;
-          }
-          toPost.push(tweet);
-        } catch (error) {
-          console.error(`Failed during duplicate detection of ${tweet.id}:`, error);
-        }
+      latestTweets = await scraper.getLatestTweets(pair.twitter);
+    } catch (error) {
+      metrics?.failure('scrape');
+      await this.scrapeMonitor?.recordFailure(pair, error);
+      throw error;
+    }
+    await this.scrapeMonitor?.recordSuccess(pair);
+    const newTweets = await this.findNewTweets(latestTweets, pair);
+    metrics?.scraped(latestTweets.length, newTweets.length);
+    const seenIndex = await this.getSeenIndex(pair);
+
+    if (!this.dryRun) {
+      try {
+        await this.deletionSync.sync(pair, latestTweets, seenIndex);
+      } catch (error) {
+        log.error('Failed during deletion sync', error);
+      }
+    }
+
+    log.info(`${newTweets.length} of ${latestTweets.length} tweets are new`, { scraped: latestTweets.length, new: newTweets.length });
+
+    // Earlier failures go first so retried thread parents precede new replies
+    const retries = this.dryRun ? [] : await this.retryQueue.dueTweets(pair.storageDir, seenIndex);
+    for (const tweet of retries) {
+      log.info(`Retrying ${tweet.id} (attempt ${(tweet.retry?.attempts ?? 0) + 1})`);
+      countOutcome(await this.postAndRecord(pair, tweet, seenIndex));
+    }
+    
+    // Kept in storage so it's clear later why the post wasn't mirrored
+    const skip = async (tweet: TweetData, reason: string) => {
+      tweet.skippedBy = reason;
+      if (this.dryRun) return;
+      await StorageService.saveTweet(tweet, pair.storageDir);
+      await seenIndex.record(tweet, 'skipped');
+    };
+
+    // Apply the mirror's filters and repost policy before anything is compared or posted
+    const candidates: TweetData[] = [];
+    for (const tweet of newTweets) {
+      const rule = rejectingFilter(tweet, pair.filters);
+      if (rule) {
+        log.info(`Skipping ${tweet.id}, rejected by ${rule}`);
+        await skip(tweet, rule);
+        continue;
       }
 
-      // Reverse tweets, most recent should be last
-      toPost.reverse();
-      
-      // Post to Bluesky
-      for (const tweet of toPost) {
-        try {
-          await this.blueskyService.postTweet(tweet, pair.twitter);
-          tweet.postedToBluesky = true;
-        } catch (error) {
-          tweet.postedToBluesky = false;
-          console.error(`Failed to post tweet ${tweet.id}:`, error);
+      const mirrored = applyRepostPolicy(tweet, pair.repostPolicy);
+      if (mirrored) {
+        candidates.push(mirrored);
+      } else {
+        log.info(`Skipping repost ${tweet.id} of @${tweet.originalAuthor}`);
+        await skip(tweet, `repostPolicy: ${pair.repostPolicy || 'skip'}`);
+      }
+    }
+
+    let toPost = [];
+    for (const [i, tweet] of candidates.entries()) {
+      try {
+        if (this.blueskyService.isDuplicateWithRecentBlueskyPosts(tweet.text, pair.twitter)) {
+          log.info(`Abandoning further updates, duplicate tweet detected: ${tweet.text}`);
+          // This tweet and everything older than it is already on Bluesky
+          for (const older of candidates.slice(i)) {
+            if (!this.dryRun) await seenIndex.record(older, 'duplicate');
+          }
+          break;
         }
-        await StorageService.saveTweet(tweet, pair.storageDir);
+        toPost.push(tweet);
+      } catch (error) {
+        metrics?.failure('dedupe');
+        log.error(`Failed during duplicate detection of ${tweet.id}`, error);
       }
-    } catch (error) {
-      console.error('Error in check and post cycle:', error);
     }
+
+    // Reverse tweets, most recent should be last
+    toPost.reverse();
+    
+    // Post to Bluesky
+    for (const tweet of toPost) {
+      countOutcome(await this.postAndRecord(pair, tweet, seenIndex));
+    }
+    result.newPosts = newTweets.length;
+    return result;
   }
 
   async postStoredTweet(config: AgentConfig, tweetFile: string, sourceAccount: string): Promise<boolean> {
@@ -84,31 +283,34 @@ export class CrossPostAgent {
       throw new Error(`Tweet ${tweetFile} not found in storage`);
     }
 
-    try {
-      await this.blueskyService.postTweet(tweet, sourceAccount);
-      tweet.postedToBluesky = true;
-      await StorageService.saveTweet(tweet, accountPair.storageDir);
-      return true;
-    } catch (error) {
-      console.error(`Failed to post stored tweet ${tweetFile}:`, error);
-      return false;
-    }
+    return withLogContext({ mirror: accountPair.twitter }, async () => {
+      try {
+        const seenIndex = await this.getSeenIndex(accountPair);
+        return (await this.postAndRecord(accountPair, tweet, seenIndex)) === 'posted';
+      } catch (error) {
+        log.error(`Failed to post stored tweet ${tweetFile}`, error);
+        return false;
+      }
+    }, debugDirFor(accountPair));
   }
 
   async start(): Promise<void> { 
-    const numAccts = this.config.accountPairs.length;
-    let pairInd = 0;
-    await this.checkAndPost(this.config.accountPairs[pairInd++]);
-    const subinterval = this.config.CHECK_INTERVAL_MS/numAccts;
-    setInterval(() => {
-      if(pairInd >= numAccts) pairInd = 0;
-      this.checkAndPost(this.config.accountPairs[pairInd]);
-      pairInd += 1;
-    }, subinterval);
-    console.log(`Cross-posting agent started with ${this.config.CHECK_INTERVAL_MS / 1000}s total interval, ${subinterval/1000}s subinterval`);
+    // Load every mirror's seen index up front so a corrupt one fails fast
+    for (const pair of this.config.accountPairs) {
+      await this.getSeenIndex(pair);
+    }
+
+    this.scheduler = new MirrorScheduler(
+      pair => this.checkAndPost(pair),
+      { ...DEFAULT_SCHEDULER_OPTIONS, ...this.config.scheduler }
+    );
+    this.scheduler.start(this.config.accountPairs, this.config.CHECK_INTERVAL_MS);
+    log.info(`Cross-posting agent started with ${this.config.CHECK_INTERVAL_MS / 1000}s default interval for ${this.config.accountPairs.length} mirrors`);
   }
 
   async cleanup(): Promise<void> {
+    this.scheduler?.stop();
+    this.blueskyService.cleanup();
     await this.scraperFactory.cleanup();
   }
 }
\ No newline at end of file
@@ -0,0 +1,979 @@
+// src/mirror-config.ts
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import {
+  AccountPair,
+  AgentConfig,
+  AlertOptions,
+  BrowserOptions,
+  ContentFilters,
+  LoggingOptions,
+  MentionPolicy,
+  MonitoringOptions,
+  RetryOptions,
+  SchedulerOptions,
+} from './types';
+import { LOG_FORMATS, LOG_LEVELS, logger } from './services/logger';
+
+const log = logger.child({ component: 'config' });
+
+const PLATFORMS = ['nitter', 'twitter', 'truthsocial'];
+const REPOST_POLICIES = ['skip', 'attribute', 'quote'];
+const UNMAPPED_MENTION_POLICIES = ['link', 'plain'];
+const DEFAULT_CONFIG_FILES = ['mirrors.yaml', 'mirrors.yml', 'mirrors.json'];
+const DEFAULT_CHECK_INTERVAL_MS = 44 * 60 * 1000;
+const DEFAULT_DELETION_CONFIRM_MINUTES = 60;
+const DEFAULT_ALERT_FAILURE_THRESHOLD = 3;
+const ALERT_CHANNELS = ['post', 'dm'];
+const BROWSER_MODES = ['attach', 'launch'];
+
+/**
+ * Loads the agent configuration from the given config file, the one named by
+ * MIRRORS_CONFIG or mirrors.yaml/.yml/.json in the working directory,
+ * falling back to the MIRROR_<n>_* environment variables when there is none.
+ */
+export function loadAgentConfig(explicitPath?: string): AgentConfig {
+  const configPath = findConfigFile(explicitPath);
+  if (!configPath) {
+    const monitoring = monitoringFromEnv();
+    return {
+      accountPairs: loadMirrorConfigurationsFromEnv(),
+      CHECK_INTERVAL_MS: DEFAULT_CHECK_INTERVAL_MS,
+      ...(monitoring && { monitoring }),
+    };
+  }
+
+  log.info(`Loading mirror configuration from ${configPath}`);
+  return parseConfigFile(configPath);
+}
+
+export function findConfigFile(
+  explicit = process.env.MIRRORS_CONFIG
+): string | undefined {
+  if (explicit) {
+    if (!fs.existsSync(explicit)) {
+      throw new Error(`Config file ${explicit} does not exist`);
+    }
+    return explicit;
+  }
+  return DEFAULT_CONFIG_FILES.find((file) => fs.existsSync(file));
+}
+
+export function parseConfigFile(configPath: string): AgentConfig {
+  const content = fs.readFileSync(configPath, 'utf-8');
+  let raw: unknown;
+  try {
+    raw = ['.yaml', '.yml'].includes(path.extname(configPath).toLowerCase())
+      ? YAML.parse(content)
+      : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${configPath}: ${error.message}`);
+  }
+
+  const errors: string[] = [];
+  const config = validateConfig(raw, errors);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid mirror configuration in ${configPath}:\n` +
+        errors.map((error) => `  - ${error}`).join('\n')
+    );
+  }
+  return config;
+}
+
+/**
+ * Checks the parsed file against the config schema. Every problem is pushed
+ * onto `errors` prefixed with the path of the offending field, e.g.
+ * `mirrors[2].bluesky.password`.
+ */
+function validateConfig(raw: unknown, errors: string[]): AgentConfig {
+  const root = expectObject(raw, '(root)', errors) || {};
+  checkKnownKeys(
+    root,
+    '',
+    [
+      'checkIntervalMinutes',
+      'nitterHost',
+      'pdsUrl',
+      'scheduler',
+      'retry',
+      'monitoring',
+      'logging',
+      'alerts',
+      'browser',
+      'mirrors',
+    ],
+    errors
+  );
+
+  const checkIntervalMinutes = optionalPositiveNumber(
+    root.checkIntervalMinutes,
+    'checkIntervalMinutes',
+    errors
+  );
+  const checkIntervalMs =
+    checkIntervalMinutes !== undefined
+      ? checkIntervalMinutes * 60 * 1000
+      : DEFAULT_CHECK_INTERVAL_MS;
+  const nitterHost =
+    optionalString(root.nitterHost, 'nitterHost', errors) ??
+    process.env.NITTER_HOST;
+  // Default PDS for every mirror, e.g. a local one for integration testing
+  const defaultPdsUrl =
+    validatePdsUrl(root.pdsUrl, 'pdsUrl', errors) ??
+    process.env.BLUESKY_PDS_URL;
+
+  const scheduler = validateScheduler(root.scheduler, errors);
+  const retry = validateRetry(root.retry, errors);
+  const monitoring =
+    validateMonitoring(root.monitoring, errors) ?? monitoringFromEnv();
+  const logging = validateLogging(root.logging, errors);
+  const alerts = validateAlerts(root.alerts, defaultPdsUrl, errors);
+  const browser = validateBrowser(root.browser, errors);
+
+  if (!Array.isArray(root.mirrors) || root.mirrors.length === 0) {
+    errors.push('mirrors: must be a non-empty list');
+    return { accountPairs: [], CHECK_INTERVAL_MS: checkIntervalMs };
+  }
+
+  const accountPairs = root.mirrors
+    .map((mirror: unknown, i: number) =>
+      validateMirror(mirror, `mirrors[${i}]`, nitterHost, defaultPdsUrl, errors)
+    )
+    .filter((pair): pair is AccountPair => !!pair);
+
+  // Mirrors are keyed by source URL and own their storage directory
+  accountPairs.forEach((pair, i) => {
+    const earlier = accountPairs.slice(0, i);
+    if (earlier.some((other) => other.twitter === pair.twitter)) {
+      errors.push(`mirrors: ${pair.twitter} is mirrored more than once`);
+    }
+    if (earlier.some((other) => other.storageDir === pair.storageDir)) {
+      errors.push(
+        `mirrors: storageDir ${pair.storageDir} is used by more than one mirror`
+      );
+    }
+  });
+
+  return {
+    accountPairs,
+    CHECK_INTERVAL_MS: checkIntervalMs,
+    ...(scheduler && { scheduler }),
+    ...(retry && { retry }),
+    ...(monitoring && { monitoring }),
+    ...(logging && { logging }),
+    ...(alerts && { alerts }),
+    ...(browser && { browser }),
+  };
+}
+
+function validateScheduler(
+  raw: unknown,
+  errors: string[]
+): Partial<SchedulerOptions> | undefined {
+  if (raw === undefined) return undefined;
+  const scheduler = expectObject(raw, 'scheduler', errors);
+  if (!scheduler) return undefined;
+
+  const keys = ['jitter', 'minFactor', 'maxFactor', 'backoffFactor'] as const;
+  checkKnownKeys(scheduler, 'scheduler', [...keys], errors);
+
+  const options: Partial<SchedulerOptions> = {};
+  for (const key of keys) {
+    const value = optionalPositiveNumber(
+      scheduler[key],
+      `scheduler.${key}`,
+      errors
+    );
+    if (value !== undefined) options[key] = value;
+  }
+  if (options.jitter !== undefined && options.jitter >= 1) {
+    errors.push('scheduler.jitter: must be less than 1');
+  }
+  if (
+    options.minFactor !== undefined &&
+    options.maxFactor !== undefined &&
+    options.minFactor > options.maxFactor
+  ) {
+    errors.push('scheduler.minFactor: must not exceed scheduler.maxFactor');
+  }
+  return options;
+}
+
+function validateRetry(
+  raw: unknown,
+  errors: string[]
+): Partial<RetryOptions> | undefined {
+  if (raw === undefined) return undefined;
+  const retry = expectObject(raw, 'retry', errors);
+  if (!retry) return undefined;
+  checkKnownKeys(
+    retry,
+    'retry',
+    ['maxAttempts', 'baseDelayMinutes', 'maxDelayMinutes', 'maxAgeHours'],
+    errors
+  );
+
+  const options: Partial<RetryOptions> = {};
+  const maxAttempts = optionalPositiveNumber(
+    retry.maxAttempts,
+    'retry.maxAttempts',
+    errors
+  );
+  if (maxAttempts !== undefined) {
+    if (!Number.isInteger(maxAttempts)) {
+      errors.push('retry.maxAttempts: must be a whole number');
+    }
+    options.maxAttempts = maxAttempts;
+  }
+  const baseDelayMinutes = optionalPositiveNumber(
+    retry.baseDelayMinutes,
+    'retry.baseDelayMinutes',
+    errors
+  );
+  if (baseDelayMinutes !== undefined) {
+    options.baseDelayMs = baseDelayMinutes * 60 * 1000;
+  }
+  const maxDelayMinutes = optionalPositiveNumber(
+    retry.maxDelayMinutes,
+    'retry.maxDelayMinutes',
+    errors
+  );
+  if (maxDelayMinutes !== undefined) {
+    options.maxDelayMs = maxDelayMinutes * 60 * 1000;
+  }
+  const maxAgeHours = optionalPositiveNumber(
+    retry.maxAgeHours,
+    'retry.maxAgeHours',
+    errors
+  );
+  if (maxAgeHours !== undefined) {
+    options.maxAgeMs = maxAgeHours * 60 * 60 * 1000;
+  }
+  return options;
+}
+
+function validateMirror(
+  raw: unknown,
+  at: string,
+  nitterHost: string | undefined,
+  defaultPdsUrl: string | undefined,
+  errors: string[]
+): AccountPair | undefined {
+  const mirror = expectObject(raw, at, errors);
+  if (!mirror) return undefined;
+  checkKnownKeys(
+    mirror,
+    at,
+    [
+      'source',
+      'platform',
+      'bluesky',
+      'storageDir',
+      'checkIntervalMinutes',
+      'pdsUrl',
+      'repostPolicy',
+      'deletionSync',
+      'mentions',
+      'filters',
+    ],
+    errors
+  );
+  const startErrors = errors.length;
+
+  const source = requiredString(mirror.source, `${at}.source`, errors);
+  const platform =
+    mirror.platform === undefined
+      ? 'nitter'
+      : optionalEnum(mirror.platform, `${at}.platform`, PLATFORMS, errors);
+  if (platform === 'nitter' && !nitterHost) {
+    errors.push(
+      `${at}.platform: nitter needs nitterHost in the config or NITTER_HOST in the environment`
+    );
+  }
+
+  const bluesky = expectObject(mirror.bluesky, `${at}.bluesky`, errors) || {};
+  checkKnownKeys(bluesky, `${at}.bluesky`, ['identifier', 'password'], errors);
+  const identifier = resolveCredential(
+    bluesky.identifier,
+    `${at}.bluesky.identifier`,
+    true,
+    errors
+  );
+  const password = resolveCredential(
+    bluesky.password,
+    `${at}.bluesky.password`,
+    false,
+    errors
+  );
+
+  const storageDir =
+    optionalString(mirror.storageDir, `${at}.storageDir`, errors) ??
+    (source ? `./storage/${source.toLowerCase()}` : '');
+  const checkIntervalMinutes = optionalPositiveNumber(
+    mirror.checkIntervalMinutes,
+    `${at}.checkIntervalMinutes`,
+    errors
+  );
+  const checkIntervalMs =
+    checkIntervalMinutes !== undefined
+      ? checkIntervalMinutes * 60 * 1000
+      : undefined;
+  const pdsUrl =
+    validatePdsUrl(mirror.pdsUrl, `${at}.pdsUrl`, errors) ?? defaultPdsUrl;
+  const repostPolicy = optionalEnum(
+    mirror.repostPolicy,
+    `${at}.repostPolicy`,
+    REPOST_POLICIES,
+    errors
+  ) as AccountPair['repostPolicy'];
+
+  const mentions = validateMentions(mirror.mentions, `${at}.mentions`, errors);
+  const filters = validateFilters(mirror.filters, `${at}.filters`, errors);
+
+  let deletionSync: AccountPair['deletionSync'];
+  if (mirror.deletionSync !== undefined) {
+    const sync = expectObject(
+      mirror.deletionSync,
+      `${at}.deletionSync`,
+      errors
+    );
+    if (sync) {
+      checkKnownKeys(
+        sync,
+        `${at}.deletionSync`,
+        ['confirmationDelayMinutes'],
+        errors
+      );
+      const minutes =
+        optionalPositiveNumber(
+          sync.confirmationDelayMinutes,
+          `${at}.deletionSync.confirmationDelayMinutes`,
+          errors
+        ) ?? DEFAULT_DELETION_CONFIRM_MINUTES;
+      deletionSync = { confirmationDelayMs: minutes * 60 * 1000 };
+    }
+  }
+
+  if (
+    errors.length > startErrors ||
+    !source ||
+    !platform ||
+    !identifier ||
+    !password
+  ) {
+    return undefined;
+  }
+
+  return {
+    twitter: `${getPlatformBaseUrl(platform, nitterHost)}/${source}`,
+    platform,
+    bluesky: { identifier, password },
+    storageDir,
+    ...(checkIntervalMs && { checkIntervalMs }),
+    ...(pdsUrl && { pdsUrl }),
+    ...(repostPolicy && { repostPolicy }),
+    ...(deletionSync && { deletionSync }),
+    ...(mentions && { mentions }),
+    ...(filters && { filters }),
+  };
+}
+
+function validateMentions(
+  raw: unknown,
+  at: string,
+  errors: string[]
+): MentionPolicy | undefined {
+  if (raw === undefined) return undefined;
+  const mentions = expectObject(raw, at, errors);
+  if (!mentions) return undefined;
+  checkKnownKeys(mentions, at, ['handles', 'unmapped'], errors);
+
+  const policy: MentionPolicy = {};
+  if (mentions.handles !== undefined) {
+    const handles = expectObject(mentions.handles, `${at}.handles`, errors);
+    policy.handles = {};
+    for (const [handle, did] of Object.entries(handles || {})) {
+      if (typeof did !== 'string' || !did.startsWith('did:')) {
+        errors.push(`${at}.handles.${handle}: must be a Bluesky DID`);
+        continue;
+      }
+      // Source handles are matched case-insensitively, without the @
+      policy.handles[handle.replace(/^@/, '').toLowerCase()] = did;
+    }
+  }
+  const unmapped = optionalEnum(
+    mentions.unmapped,
+    `${at}.unmapped`,
+    UNMAPPED_MENTION_POLICIES,
+    errors
+  ) as MentionPolicy['unmapped'];
+  if (unmapped) policy.unmapped = unmapped;
+  return policy;
+}
+
+function validateAlerts(
+  raw: unknown,
+  defaultPdsUrl: string | undefined,
+  errors: string[]
+): AlertOptions | undefined {
+  if (raw === undefined) return undefined;
+  const alerts = expectObject(raw, 'alerts', errors);
+  if (!alerts) return undefined;
+  checkKnownKeys(
+    alerts,
+    'alerts',
+    ['failureThreshold', 'webhookUrl', 'bluesky'],
+    errors
+  );
+
+  const failureThreshold =
+    optionalPositiveNumber(
+      alerts.failureThreshold,
+      'alerts.failureThreshold',
+      errors
+    ) ?? DEFAULT_ALERT_FAILURE_THRESHOLD;
+  if (!Number.isInteger(failureThreshold)) {
+    errors.push('alerts.failureThreshold: must be a whole number');
+  }
+
+  // Webhook URLs often embed a token, so they may come from the environment
+  const webhookUrl =
+    alerts.webhookUrl === undefined
+      ? undefined
+      : resolveCredential(alerts.webhookUrl, 'alerts.webhookUrl', true, errors);
+  if (webhookUrl && !/^https?:\/\/[^/]+/.test(webhookUrl)) {
+    errors.push('alerts.webhookUrl: must be an http(s) URL');
+  }
+
+  let bluesky: AlertOptions['bluesky'];
+  if (alerts.bluesky !== undefined) {
+    const raw = expectObject(alerts.bluesky, 'alerts.bluesky', errors);
+    if (raw) {
+      checkKnownKeys(
+        raw,
+        'alerts.bluesky',
+        ['identifier', 'password', 'pdsUrl', 'operator', 'via'],
+        errors
+      );
+      const identifier = requiredString(
+        raw.identifier,
+        'alerts.bluesky.identifier',
+        errors
+      );
+      const password = resolveCredential(
+        raw.password,
+        'alerts.bluesky.password',
+        false,
+        errors
+      );
+      const operator = requiredString(
+        raw.operator,
+        'alerts.bluesky.operator',
+        errors
+      );
+      const pdsUrl =
+        validatePdsUrl(raw.pdsUrl, 'alerts.bluesky.pdsUrl', errors) ??
+        defaultPdsUrl;
+      const via =
+        optionalEnum(raw.via, 'alerts.bluesky.via', ALERT_CHANNELS, errors) ??
+        'post';
+      if (identifier && password && operator) {
+        bluesky = {
+          identifier,
+          password,
+          operator,
+          via: via as 'post' | 'dm',
+          ...(pdsUrl && { pdsUrl }),
+        };
+      }
+    }
+  }
+
+  if (alerts.webhookUrl === undefined && alerts.bluesky === undefined) {
+    errors.push('alerts: needs a webhookUrl or bluesky to send alerts to');
+  }
+  return {
+    failureThreshold,
+    ...(webhookUrl && { webhookUrl }),
+    ...(bluesky && { bluesky }),
+  };
+}
+
+function validateLogging(
+  raw: unknown,
+  errors: string[]
+): Partial<LoggingOptions> | undefined {
+  if (raw === undefined) return undefined;
+  const logging = expectObject(raw, 'logging', errors);
+  if (!logging) return undefined;
+  checkKnownKeys(
+    logging,
+    'logging',
+    ['level', 'format', 'debugArtifacts'],
+    errors
+  );
+
+  const options: Partial<LoggingOptions> = {};
+  const level = optionalEnum(
+    logging.level,
+    'logging.level',
+    LOG_LEVELS,
+    errors
+  );
+  if (level) options.level = level as LoggingOptions['level'];
+  const format = optionalEnum(
+    logging.format,
+    'logging.format',
+    LOG_FORMATS,
+    errors
+  );
+  if (format) options.format = format as LoggingOptions['format'];
+  if (logging.debugArtifacts !== undefined) {
+    if (typeof logging.debugArtifacts !== 'boolean') {
+      errors.push('logging.debugArtifacts: must be true or false');
+    } else {
+      options.debugArtifacts = logging.debugArtifacts;
+    }
+  }
+  return options;
+}
+
+function validateMonitoring(
+  raw: unknown,
+  errors: string[]
+): MonitoringOptions | undefined {
+  if (raw === undefined) return undefined;
+  const monitoring = expectObject(raw, 'monitoring', errors);
+  if (!monitoring) return undefined;
+  checkKnownKeys(
+    monitoring,
+    'monitoring',
+    ['port', 'host', 'unhealthyAfterMinutes'],
+    errors
+  );
+
+  const port = validatePort(monitoring.port, 'monitoring.port', errors);
+  const host = optionalString(monitoring.host, 'monitoring.host', errors);
+  const unhealthyAfterMinutes = optionalPositiveNumber(
+    monitoring.unhealthyAfterMinutes,
+    'monitoring.unhealthyAfterMinutes',
+    errors
+  );
+  if (port === undefined) return undefined;
+  return {
+    port,
+    ...(host && { host }),
+    ...(unhealthyAfterMinutes && {
+      unhealthyAfterMs: unhealthyAfterMinutes * 60 * 1000,
+    }),
+  };
+}
+
+// MONITORING_PORT turns the monitoring server on without a config file
+function monitoringFromEnv(): MonitoringOptions | undefined {
+  if (!process.env.MONITORING_PORT) return undefined;
+  const errors: string[] = [];
+  const port = validatePort(
+    Number(process.env.MONITORING_PORT),
+    'MONITORING_PORT',
+    errors
+  );
+  if (port === undefined) {
+    throw new Error(errors.join('\n'));
+  }
+  return { port, host: process.env.MONITORING_HOST || undefined };
+}
+
+function validateBrowser(
+  raw: unknown,
+  errors: string[]
+): Partial<BrowserOptions> | undefined {
+  if (raw === undefined) return undefined;
+  const browser = expectObject(raw, 'browser', errors);
+  if (!browser) return undefined;
+  checkKnownKeys(
+    browser,
+    'browser',
+    [
+      'mode',
+      'endpoint',
+      'args',
+      'maxPages',
+      'acquireTimeoutSeconds',
+      'leaseTimeoutSeconds',
+    ],
+    errors
+  );
+
+  const options: Partial<BrowserOptions> = {};
+  const mode = optionalEnum(
+    browser.mode,
+    'browser.mode',
+    BROWSER_MODES,
+    errors
+  );
+  if (mode) options.mode = mode as BrowserOptions['mode'];
+  const endpoint = optionalString(browser.endpoint, 'browser.endpoint', errors);
+  if (endpoint) {
+    if (!/^(https?|wss?):\/\/[^/]+/.test(endpoint)) {
+      errors.push('browser.endpoint: must be an http(s) or ws(s) URL');
+    } else if (mode === 'launch') {
+      errors.push('browser.endpoint: is only used with mode attach');
+    }
+    options.endpoint = endpoint;
+  }
+  const args = optionalStringList(browser.args, 'browser.args', errors);
+  if (args) {
+    if (mode !== 'launch') {
+      errors.push('browser.args: is only used with mode launch');
+    }
+    options.args = args;
+  }
+  const maxPages = optionalPositiveNumber(
+    browser.maxPages,
+    'browser.maxPages',
+    errors
+  );
+  if (maxPages !== undefined) {
+    // A scrape holds its page while it opens others for media and links
+    if (!Number.isInteger(maxPages) || maxPages < 2) {
+      errors.push('browser.maxPages: must be a whole number of at least 2');
+    }
+    options.maxPages = maxPages;
+  }
+  const acquireTimeoutSeconds = optionalPositiveNumber(
+    browser.acquireTimeoutSeconds,
+    'browser.acquireTimeoutSeconds',
+    errors
+  );
+  if (acquireTimeoutSeconds !== undefined) {
+    options.acquireTimeoutMs = acquireTimeoutSeconds * 1000;
+  }
+  const leaseTimeoutSeconds = optionalPositiveNumber(
+    browser.leaseTimeoutSeconds,
+    'browser.leaseTimeoutSeconds',
+    errors
+  );
+  if (leaseTimeoutSeconds !== undefined) {
+    options.leaseTimeoutMs = leaseTimeoutSeconds * 1000;
+  }
+  return options;
+}
+
+function validatePort(
+  value: unknown,
+  at: string,
+  errors: string[]
+): number | undefined {
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > 65535
+  ) {
+    errors.push(`${at}: must be a port number between 1 and 65535`);
+    return undefined;
+  }
+  return value;
+}
+
+function validateFilters(
+  raw: unknown,
+  at: string,
+  errors: string[]
+): ContentFilters | undefined {
+  if (raw === undefined) return undefined;
+  const filters = expectObject(raw, at, errors);
+  if (!filters) return undefined;
+  checkKnownKeys(
+    filters,
+    at,
+    [
+      'includeKeywords',
+      'includePatterns',
+      'excludeKeywords',
+      'excludePatterns',
+      'skipReplies',
+      'skipWithoutMedia',
+      'minLength',
+      'maxAgeMinutes',
+    ],
+    errors
+  );
+
+  const result: ContentFilters = {};
+  for (const key of ['includeKeywords', 'excludeKeywords'] as const) {
+    const keywords = optionalStringList(filters[key], `${at}.${key}`, errors);
+    if (keywords) result[key] = keywords;
+  }
+  for (const key of ['includePatterns', 'excludePatterns'] as const) {
+    const patterns = optionalStringList(filters[key], `${at}.${key}`, errors);
+    if (!patterns) continue;
+    patterns.forEach((pattern, i) => {
+      try {
+        new RegExp(pattern, 'i');
+      } catch (error) {
+        errors.push(`${at}.${key}[${i}]: invalid regex: ${error.message}`);
+      }
+    });
+    result[key] = patterns;
+  }
+  for (const key of ['skipReplies', 'skipWithoutMedia'] as const) {
+    if (filters[key] === undefined) continue;
+    if (typeof filters[key] !== 'boolean') {
+      errors.push(`${at}.${key}: must be true or false`);
+    } else {
+      result[key] = filters[key];
+    }
+  }
+  const minLength = optionalPositiveNumber(
+    filters.minLength,
+    `${at}.minLength`,
+    errors
+  );
+  if (minLength !== undefined) result.minLength = minLength;
+  const maxAgeMinutes = optionalPositiveNumber(
+    filters.maxAgeMinutes,
+    `${at}.maxAgeMinutes`,
+    errors
+  );
+  if (maxAgeMinutes !== undefined) result.maxAgeMs = maxAgeMinutes * 60 * 1000;
+  return result;
+}
+
+// A PDS is given by URL, or as `auto` to resolve it from the account's handle
+function validatePdsUrl(
+  value: unknown,
+  at: string,
+  errors: string[]
+): string | undefined {
+  const pdsUrl = optionalString(value, at, errors);
+  if (pdsUrl && pdsUrl !== 'auto' && !/^https?:\/\/[^/]+/.test(pdsUrl)) {
+    errors.push(`${at}: must be an http(s) URL or auto`);
+    return undefined;
+  }
+  return pdsUrl;
+}
+
+/**
+ * Credentials are given as `{ env: NAME }` references so secrets stay out of
+ * the config file. Plain strings are only accepted where `allowLiteral` is
+ * set (e.g. handles).
+ */
+function resolveCredential(
+  value: any,
+  at: string,
+  allowLiteral: boolean,
+  errors: string[]
+): string | undefined {
+  if (typeof value === 'string' && allowLiteral) {
+    return value;
+  }
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    typeof value.env !== 'string' ||
+    Object.keys(value).length !== 1
+  ) {
+    errors.push(
+      `${at}: must be ${
+        allowLiteral ? 'a string or ' : ''
+      }an environment variable reference like { env: NAME }`
+    );
+    return undefined;
+  }
+
+  const resolved = process.env[value.env];
+  if (!resolved) {
+    errors.push(`${at}: environment variable ${value.env} is not set`);
+    return undefined;
+  }
+  return resolved;
+}
+
+function expectObject(
+  value: unknown,
+  at: string,
+  errors: string[]
+): Record<string, any> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${at}: must be an object`);
+    return undefined;
+  }
+  return value as Record<string, any>;
+}
+
+function checkKnownKeys(
+  value: Record<string, any>,
+  at: string,
+  known: string[],
+  errors: string[]
+): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      errors.push(`${at ? `${at}.` : ''}${key}: unknown field`);
+    }
+  }
+}
+
+function requiredString(
+  value: unknown,
+  at: string,
+  errors: string[]
+): string | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${at}: must be a non-empty string`);
+    return undefined;
+  }
+  return value;
+}
+
+function optionalString(
+  value: unknown,
+  at: string,
+  errors: string[]
+): string | undefined {
+  if (value === undefined) return undefined;
+  return requiredString(value, at, errors);
+}
+
+function optionalStringList(
+  value: unknown,
+  at: string,
+  errors: string[]
+): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.some((item) => typeof item !== 'string' || item === '')
+  ) {
+    errors.push(`${at}: must be a list of non-empty strings`);
+    return undefined;
+  }
+  return value;
+}
+
+function optionalPositiveNumber(
+  value: unknown,
+  at: string,
+  errors: string[]
+): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    errors.push(`${at}: must be a positive number`);
+    return undefined;
+  }
+  return value;
+}
+
+function optionalEnum(
+  value: unknown,
+  at: string,
+  allowed: string[],
+  errors: string[]
+): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push(`${at}: must be one of ${allowed.join(', ')}`);
+    return undefined;
+  }
+  return value;
+}
+
+function getPlatformBaseUrl(
+  platform: string,
+  nitterHost = process.env.NITTER_HOST
+): string {
+  switch (platform) {
+    case 'nitter':
+      return 'https://' + nitterHost;
+    case 'truthsocial':
+      return 'https://truthsocial.com';
+    case 'twitter':
+      return 'https://x.com';
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+/**
+ * Legacy configuration: MIRROR_1_*, MIRROR_2_*, ... environment variables,
+ * read until the first index with no configuration.
+ */
+function loadMirrorConfigurationsFromEnv(): AccountPair[] {
+  const pairs: AccountPair[] = [];
+  let configIndex = 1;
+
+  while (true) {
+    const identifier = process.env[`MIRROR_${configIndex}_IDENTIFIER`];
+    let platform = process.env[`MIRROR_${configIndex}_PLATFORM`];
+    if (!platform) platform = 'nitter';
+    const blueskyId = process.env[`MIRROR_${configIndex}_BLUESKY_IDENTIFIER`];
+    const blueskyPassword =
+      process.env[`MIRROR_${configIndex}_BLUESKY_PASSWORD`];
+
+    // If we don't find a configuration for this index, we're done
+    if (!identifier || !platform || !blueskyId || !blueskyPassword) {
+      break;
+    }
+
+    // Validate platform type
+    if (!PLATFORMS.includes(platform)) {
+      log.warn(
+        `Invalid platform ${platform} for account ${identifier}, skipping...`
+      );
+      configIndex++;
+      continue;
+    }
+
+    const repostPolicy =
+      process.env[`MIRROR_${configIndex}_REPOST_POLICY`] || 'skip';
+    if (!REPOST_POLICIES.includes(repostPolicy)) {
+      log.warn(
+        `Invalid repost policy ${repostPolicy} for account ${identifier}, skipping...`
+      );
+      configIndex++;
+      continue;
+    }
+
+    // Optional deletion sync, confirmed after 60 minutes missing by default
+    const deletionSync =
+      process.env[`MIRROR_${configIndex}_DELETION_SYNC`] === 'true';
+    const confirmMinutesVar = `MIRROR_${configIndex}_DELETION_CONFIRM_MINUTES`;
+    const confirmMinutesValue = process.env[confirmMinutesVar];
+    const errors: string[] = [];
+    const confirmMinutes =
+      optionalPositiveNumber(
+        confirmMinutesValue ? Number(confirmMinutesValue) : undefined,
+        confirmMinutesVar,
+        errors
+      ) ?? DEFAULT_DELETION_CONFIRM_MINUTES;
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+    const pdsUrl =
+      process.env[`MIRROR_${configIndex}_PDS_URL`] ||
+      process.env.BLUESKY_PDS_URL;
+
+    pairs.push({
+      twitter: `${getPlatformBaseUrl(platform)}/${identifier}`,
+      platform,
+      bluesky: {
+        identifier: blueskyId,
+        password: blueskyPassword,
+      },
+      storageDir: `./storage/${identifier.toLowerCase()}`,
+      repostPolicy: repostPolicy as AccountPair['repostPolicy'],
+      ...(pdsUrl && { pdsUrl }),
+      ...(deletionSync && {
+        deletionSync: { confirmationDelayMs: confirmMinutes * 60 * 1000 },
+      }),
+    });
+
+    configIndex++;
+  }
+
+  return pairs;
+}
@@ -0,0 +1,31 @@
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { fixtureBrowserError, verifyFixtures } from './scraper-fixtures';
+
+describe('scraper fixtures', () => {
+  let browserError: string | undefined;
+
+  beforeAll(async () => {
+    process.env.SCRAPER_FIXTURES_DIR = path.resolve(__dirname, '../fixtures');
+    browserError = await fixtureBrowserError();
+    if (browserError) {
+      console.warn(
+        'Skipping the scraper fixtures, Chromium could not be launched ' +
+          `(set PUPPETEER_EXECUTABLE_PATH to a working browser): ${browserError}`
+      );
+    }
+  }, 60_000);
+
+  it('extracts what the golden files record from every snapshot', async (context) => {
+    context.skip(!!browserError, 'Chromium could not be launched');
+    const results = await verifyFixtures();
+
+    expect(new Set(results.map((result) => result.platform))).toEqual(
+      new Set(['twitter', 'nitter', 'truthsocial'])
+    );
+    for (const result of results) {
+      expect(result.mismatch, result.name).toBeUndefined();
+      expect(result.posts, result.name).toBeGreaterThan(0);
+    }
+  }, 120_000);
+});
@@ -0,0 +1,422 @@
+// src/scraper-fixtures.ts
+import fs from 'fs/promises';
+import path from 'path';
+import puppeteer from 'puppeteer';
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import {
+  BrowserManager,
+  DEFAULT_BROWSER_OPTIONS,
+} from './services/browser-manager';
+import { createScraper } from './services/scraper-factory';
+import { logger } from './services/logger';
+
+const log = logger.child({ component: 'scraper-fixtures' });
+
+const DEFAULT_FIXTURES_DIR = 'apps/bsky-mirrors/fixtures';
+const PAGE_TIMEOUT_MS = 30 * 1000;
+
+// Offline, so nothing but the replayed responses can load
+const FIXTURE_BROWSER_ARGS = [
+  '--host-resolver-rules=MAP * ~NOTFOUND',
+  // Chrome can't sandbox itself as root, as in most CI containers
+  ...(process.getuid?.() === 0 ? ['--no-sandbox'] : []),
+];
+
+// What each scraper waits for before it extracts, so captures match scrapes
+const POST_SELECTORS: Record<string, string> = {
+  twitter: 'article[data-testid="tweet"]',
+  nitter: '.timeline-item',
+  truthsocial: '[data-testid="status"]',
+};
+
+// Stored next to each snapshot as <name>.golden.json
+interface GoldenFile {
+  url: string;
+  platform: string;
+  capturedAt: string;
+  tweets: unknown;
+}
+
+// A response the extraction itself fetched, such as a Truth Social image or
+// status lookup. Listed in <name>.responses.json, with the body in the
+// <name>.responses directory.
+interface RecordedResponse {
+  url: string;
+  status: number;
+  contentType: string;
+  file: string;
+}
+
+// Only what the extraction requests is recorded, not the page's own traffic
+const RECORDED_RESOURCE_TYPES = ['document', 'fetch', 'xhr'];
+
+const BODY_EXTENSIONS: Record<string, string> = {
+  'application/json': '.json',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'text/html': '.html',
+};
+
+export interface FixtureResult {
+  name: string;
+  platform: string;
+  posts: number;
+  // Where the output first differs from the golden file, if it does
+  mismatch?: string;
+  updated?: boolean;
+}
+
+export function fixturesDir(): string {
+  return process.env.SCRAPER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+/**
+ * Saves the HTML of a live page, opened in the browser the scrapers attach
+ * to by default, as `<platform>/<name>.html`, along with any responses the
+ * extraction fetches on top of it, and writes its golden file by running
+ * the extraction on the snapshot offline. Review the golden before
+ * committing: it records what the scraper does today, not what it should do.
+ */
+export async function captureFixture(
+  platform: string,
+  url: string,
+  name: string
+): Promise<string> {
+  const selector = POST_SELECTORS[platform];
+  if (!selector) throw new Error(`Unsupported platform: ${platform}`);
+
+  const recording: Promise<RecordedBody | undefined>[] = [];
+  let extracting = false;
+  const browsers = new BrowserManager(DEFAULT_BROWSER_OPTIONS, async (page) => {
+    page.on('response', (response) => {
+      if (extracting) recording.push(readResponse(response));
+    });
+  });
+  let html: string;
+  try {
+    const page = await browsers.acquirePage();
+    try {
+      await page.goto(url, {
+        waitUntil: 'networkidle0',
+        timeout: PAGE_TIMEOUT_MS,
+      });
+      await page.waitForSelector(selector, { timeout: PAGE_TIMEOUT_MS });
+      html = await page.content();
+
+      extracting = true;
+      await createScraper(platform, browsers).extractTweetsFromPage(page, url);
+    } finally {
+      await browsers.releasePage(page);
+    }
+  } finally {
+    await browsers.close();
+  }
+
+  const base = path.join(fixturesDir(), platform, name);
+  await fs.mkdir(path.dirname(base), { recursive: true });
+  await fs.writeFile(`${base}.html`, html);
+  await writeResponses(base, await Promise.all(recording));
+  await writeGolden(base, {
+    url,
+    platform,
+    capturedAt: new Date().toISOString(),
+    tweets: [],
+  });
+
+  const [result] = await verifyFixtures(`${platform}/${name}`, true);
+  log.info(`Captured ${base}.html with ${result.posts} post(s)`);
+  return base;
+}
+
+/**
+ * Runs the real extraction code of each scraper against its saved snapshots
+ * in a local headless Chromium and compares the output with the golden
+ * files. Only the snapshot and its recorded responses are served; every
+ * other request fails, so results don't depend on the network. With
+ * `update` the golden files are rewritten instead.
+ */
+export async function verifyFixtures(
+  only?: string,
+  update = false
+): Promise<FixtureResult[]> {
+  const fixtures = await listFixtures(only);
+  if (fixtures.length === 0) {
+    throw new Error(`No fixtures found in ${fixturesDir()}`);
+  }
+
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await runFixture(fixture, update));
+  }
+  return results;
+}
+
+/**
+ * Why the fixtures can't run here, if Chromium can't be launched, e.g. on a
+ * machine without the browser puppeteer downloads or its system libraries.
+ */
+export async function fixtureBrowserError(): Promise<string | undefined> {
+  try {
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: FIXTURE_BROWSER_ARGS,
+    });
+    await browser.close();
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+interface Fixture {
+  name: string;
+  platform: string;
+  base: string;
+}
+
+async function listFixtures(only?: string): Promise<Fixture[]> {
+  const fixtures: Fixture[] = [];
+  for (const platform of Object.keys(POST_SELECTORS)) {
+    const dir = path.join(fixturesDir(), platform);
+    const files = await fs.readdir(dir).catch(() => [] as string[]);
+    for (const file of files.filter((file) => file.endsWith('.html')).sort()) {
+      const name = file.slice(0, -'.html'.length);
+      if (only && only !== platform && only !== `${platform}/${name}`) {
+        continue;
+      }
+      fixtures.push({ name, platform, base: path.join(dir, name) });
+    }
+  }
+  return fixtures;
+}
+
+async function runFixture(
+  fixture: Fixture,
+  update: boolean
+): Promise<FixtureResult> {
+  const result: FixtureResult = {
+    name: `${fixture.platform}/${fixture.name}`,
+    platform: fixture.platform,
+    posts: 0,
+  };
+  const html = await fs.readFile(`${fixture.base}.html`, 'utf8');
+  const golden: GoldenFile = JSON.parse(
+    await fs.readFile(`${fixture.base}.golden.json`, 'utf8')
+  );
+  const responses = await readResponses(fixture.base);
+
+  // A browser of its own, so no state carries over between fixtures
+  const browsers = new BrowserManager(
+    {
+      ...DEFAULT_BROWSER_OPTIONS,
+      mode: 'launch',
+      args: FIXTURE_BROWSER_ARGS,
+    },
+    (page) =>
+      replay(page, Date.parse(golden.capturedAt), (request) => {
+        if (request.isNavigationRequest() && request.url() === golden.url) {
+          return {
+            status: 200,
+            contentType: 'text/html; charset=utf-8',
+            body: html,
+          };
+        }
+        return responses.get(request.url());
+      })
+  );
+  try {
+    const page = await browsers.acquirePage();
+    await page.goto(golden.url, {
+      waitUntil: 'load',
+      timeout: PAGE_TIMEOUT_MS,
+    });
+
+    const scraper = createScraper(fixture.platform, browsers);
+    const tweets = normalize(
+      await scraper.extractTweetsFromPage(page, golden.url)
+    );
+    result.posts = tweets.length;
+
+    if (update) {
+      await writeGolden(fixture.base, { ...golden, tweets });
+      result.updated = true;
+    } else {
+      result.mismatch = firstDifference(golden.tweets, tweets);
+    }
+  } finally {
+    await browsers.close();
+  }
+  return result;
+}
+
+interface ReplayedResponse {
+  status: number;
+  contentType: string;
+  body: string | Buffer;
+}
+
+/**
+ * Serves the page's requests from `respond`, failing those it has nothing
+ * for, and runs it on a fixed clock and time zone, since relative
+ * timestamps ("5h") and parsed dates depend on both.
+ */
+async function replay(
+  page: Page,
+  nowMs: number,
+  respond: (request: HTTPRequest) => ReplayedResponse | undefined
+): Promise<void> {
+  await page.emulateTimezone('UTC');
+  await page.setRequestInterception(true);
+  page.on('request', (request: HTTPRequest) => {
+    const response = respond(request);
+    if (response) {
+      void request.respond(response);
+    } else {
+      void request.abort();
+    }
+  });
+  await page.evaluateOnNewDocument((nowMs: number) => {
+    const RealDate = Date;
+    class FixedDate extends RealDate {
+      constructor(...args: ConstructorParameters<DateConstructor> | []) {
+        if (args.length === 0) {
+          super(nowMs);
+        } else {
+          super(...args);
+        }
+      }
+
+      static override now() {
+        return nowMs;
+      }
+    }
+    window.Date = FixedDate as DateConstructor;
+  }, nowMs);
+}
+
+interface RecordedBody {
+  url: string;
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+// Resolves to nothing for responses without a body, such as redirects
+async function readResponse(
+  response: HTTPResponse
+): Promise<RecordedBody | undefined> {
+  if (!RECORDED_RESOURCE_TYPES.includes(response.request().resourceType())) {
+    return undefined;
+  }
+  try {
+    return {
+      url: response.url(),
+      status: response.status(),
+      contentType: response.headers()['content-type'] ?? '',
+      body: await response.buffer(),
+    };
+  } catch (error) {
+    log.debug(`Not recording ${response.url()}: ${error.message}`);
+    return undefined;
+  }
+}
+
+async function writeResponses(
+  base: string,
+  bodies: (RecordedBody | undefined)[]
+): Promise<void> {
+  const dir = `${base}.responses`;
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.rm(`${base}.responses.json`, { force: true });
+  const recorded = bodies.filter(
+    (body): body is RecordedBody => body !== undefined
+  );
+  if (recorded.length === 0) return;
+
+  await fs.mkdir(dir);
+  const index: RecordedResponse[] = [];
+  for (const [i, { url, status, contentType, body }] of recorded.entries()) {
+    const extension =
+      BODY_EXTENSIONS[contentType.split(';')[0].trim().toLowerCase()] ?? '.bin';
+    const file = `${i + 1}${extension}`;
+    await fs.writeFile(path.join(dir, file), body);
+    index.push({ url, status, contentType, file });
+  }
+  await fs.writeFile(
+    `${base}.responses.json`,
+    JSON.stringify(index, null, 2) + '\n'
+  );
+}
+
+async function readResponses(
+  base: string
+): Promise<Map<string, ReplayedResponse>> {
+  const responses = new Map<string, ReplayedResponse>();
+  let index: RecordedResponse[];
+  try {
+    index = JSON.parse(await fs.readFile(`${base}.responses.json`, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return responses;
+    throw error;
+  }
+  for (const { url, status, contentType, file } of index) {
+    responses.set(url, {
+      status,
+      contentType,
+      body: await fs.readFile(path.join(`${base}.responses`, file)),
+    });
+  }
+  return responses;
+}
+
+async function writeGolden(base: string, golden: GoldenFile): Promise<void> {
+  await fs.writeFile(
+    `${base}.golden.json`,
+    JSON.stringify(golden, null, 2) + '\n'
+  );
+}
+
+// The output as it would be read back from a golden file. Media buffers are
+// only checked for being there, as captured images are re-encoded by the
+// browser and their size changes between Chrome versions.
+function normalize(tweets: unknown[]): unknown[] {
+  return JSON.parse(
+    JSON.stringify(tweets, (_key, value) =>
+      value?.type === 'Buffer' && Array.isArray(value.data)
+        ? { bytes: value.data.length > 0 }
+        : value
+    )
+  );
+}
+
+function firstDifference(
+  expected: unknown,
+  actual: unknown,
+  at = 'tweets'
+): string | undefined {
+  if (
+    typeof expected !== 'object' ||
+    typeof actual !== 'object' ||
+    expected === null ||
+    actual === null ||
+    Array.isArray(expected) !== Array.isArray(actual)
+  ) {
+    return Object.is(expected, actual)
+      ? undefined
+      : `${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(
+          actual
+        )}`;
+  }
+
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  for (const key of keys) {
+    const difference = firstDifference(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      Array.isArray(expected) ? `${at}[${key}]` : `${at}.${key}`
+    );
+    if (difference) return difference;
+  }
+  return undefined;
+}
@@ -0,0 +1,190 @@
+// src/services/alert-sinks.ts
+import { BskyAgent, RichText } from '@atproto/api';
+import { AlertOptions } from '../types';
+import { PageSnapshot } from './debug-artifacts';
+import { normalizeImage } from './media-normalizer';
+import { resolvePdsUrl } from './pds-resolver';
+import { graphemeLength, POST_GRAPHEME_LIMIT } from './text-splitter';
+
+const DEFAULT_SERVICE_URL = 'https://bsky.social';
+const CHAT_SERVICE_DID = 'did:web:api.bsky.chat';
+const WEBHOOK_TIMEOUT_MS = 30 * 1000;
+
+export interface ScrapeAlert {
+  kind: 'broken' | 'recovered';
+  mirror: string;
+  platform: string;
+  consecutiveFailures: number;
+  failingSince: string;
+  lastError?: string;
+  // Only on 'broken' alerts: the page when the threshold was crossed, and
+  // where it was saved
+  snapshot?: PageSnapshot;
+  files?: string[];
+}
+
+export interface AlertSink {
+  send(alert: ScrapeAlert): Promise<void>;
+}
+
+export function createAlertSinks(options: AlertOptions): AlertSink[] {
+  const sinks: AlertSink[] = [];
+  if (options.webhookUrl) {
+    sinks.push(new WebhookAlertSink(options.webhookUrl));
+  }
+  if (options.bluesky) {
+    sinks.push(new BlueskyAlertSink(options.bluesky));
+  }
+  return sinks;
+}
+
+export function alertText(alert: ScrapeAlert): string {
+  if (alert.kind === 'recovered') {
+    return (
+      `Scraping ${alert.mirror} (${alert.platform}) works again after ` +
+      `${alert.consecutiveFailures} failed attempt(s) since ${alert.failingSince}.`
+    );
+  }
+  return (
+    `Scraping ${alert.mirror} (${alert.platform}) has failed ` +
+    `${alert.consecutiveFailures} times in a row since ${alert.failingSince}: ` +
+    `${alert.lastError ?? 'unknown error'}`
+  );
+}
+
+/**
+ * POSTs alerts as multipart/form-data: a `payload` JSON part, plus the
+ * page's `screenshot` (PNG) and `html` as files when there is a snapshot.
+ */
+export class WebhookAlertSink implements AlertSink {
+  constructor(private readonly url: string) {}
+
+  async send(alert: ScrapeAlert): Promise<void> {
+    const { snapshot, ...fields } = alert;
+    const form = new FormData();
+    form.append(
+      'payload',
+      JSON.stringify({ ...fields, text: alertText(alert) })
+    );
+    if (snapshot?.screenshot) {
+      form.append(
+        'screenshot',
+        new Blob([snapshot.screenshot], { type: 'image/png' }),
+        'screenshot.png'
+      );
+    }
+    if (snapshot?.html !== undefined) {
+      form.append(
+        'html',
+        new Blob([snapshot.html], { type: 'text/html' }),
+        'page.html'
+      );
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Alert webhook failed: ${response.statusText} (${response.status})`
+      );
+    }
+  }
+}
+
+/**
+ * Notifies an operator from a dedicated Bluesky account, either with a post
+ * mentioning them, which carries the screenshot, or with a DM, which can only
+ * carry text (the app password then needs DM access). Either way the
+ * snapshot's saved paths are included.
+ */
+export class BlueskyAlertSink implements AlertSink {
+  private agent?: BskyAgent;
+
+  constructor(private readonly options: NonNullable<AlertOptions['bluesky']>) {}
+
+  async send(alert: ScrapeAlert): Promise<void> {
+    const agent = await this.login();
+    const files = alert.files?.length
+      ? `\nSaved: ${alert.files.join(', ')}`
+      : '';
+
+    if (this.options.via === 'dm') {
+      const did = await this.operatorDid(agent);
+      const chat = agent.withProxy('bsky_chat', CHAT_SERVICE_DID);
+      const { data } = await chat.chat.bsky.convo.getConvoForMembers({
+        members: [did],
+      });
+      await chat.chat.bsky.convo.sendMessage({
+        convoId: data.convo.id,
+        message: { text: alertText(alert) + files },
+      });
+      return;
+    }
+
+    const mention = this.options.operator.startsWith('did:')
+      ? ''
+      : `@${this.options.operator.replace(/^@/, '')} `;
+    const richText = new RichText({
+      text: truncate(mention + alertText(alert) + files, POST_GRAPHEME_LIMIT),
+    });
+    await richText.detectFacets(agent);
+    await agent.post({
+      text: richText.text,
+      facets: richText.facets,
+      embed: await this.screenshotEmbed(agent, alert),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  private async login(): Promise<BskyAgent> {
+    if (this.agent?.hasSession) return this.agent;
+
+    const { identifier, password, pdsUrl } = this.options;
+    const service =
+      pdsUrl === 'auto'
+        ? await resolvePdsUrl(identifier)
+        : pdsUrl ?? DEFAULT_SERVICE_URL;
+    const agent = new BskyAgent({ service });
+    await agent.login({ identifier, password });
+    this.agent = agent;
+    return agent;
+  }
+
+  private async operatorDid(agent: BskyAgent): Promise<string> {
+    const operator = this.options.operator.replace(/^@/, '');
+    if (operator.startsWith('did:')) return operator;
+    const { data } = await agent.resolveHandle({ handle: operator });
+    return data.did;
+  }
+
+  private async screenshotEmbed(agent: BskyAgent, alert: ScrapeAlert) {
+    const screenshot = alert.snapshot?.screenshot;
+    if (!screenshot) return undefined;
+
+    const image = await normalizeImage(new Uint8Array(screenshot));
+    const { data } = await agent.uploadBlob(image.bytes, {
+      encoding: image.mimeType,
+    });
+    return {
+      $type: 'app.bsky.embed.images',
+      images: [
+        {
+          alt: `Screenshot of ${alert.snapshot?.url ?? alert.mirror}`,
+          image: data.blob,
+        },
+      ],
+    };
+  }
+}
+
+function truncate(text: string, limit: number): string {
+  if (graphemeLength(text) <= limit) return text;
+  const segments = Array.from(
+    new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text),
+    ({ segment }) => segment
+  );
+  return segments.slice(0, limit - 1).join('') + '…';
+}
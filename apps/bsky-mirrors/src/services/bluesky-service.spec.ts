@@ -0,0 +1,73 @@
+import { BskyAgent } from '@atproto/api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TweetData } from '../types';
+import { BlueskyPoster } from './bluesky-service';
+import { DryRunRecorder } from './dry-run-recorder';
+import { LinkMetadataFetcher } from './link-preview';
+
+const TWEET: TweetData = {
+  id: '1',
+  text: 'Worth a read https://example.com/articles/1',
+  timestamp: '2026-10-16T12:00:00.000Z',
+  images: [],
+  videos: [],
+  postedToBluesky: false,
+  sourceAccount: 'someone',
+  platform: 'twitter',
+};
+
+describe('BlueskyPoster link cards', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // The record a dry run would have created for the tweet
+  async function plannedRecord(fetcher: LinkMetadataFetcher) {
+    const dryRun = new DryRunRecorder();
+    dryRun.begin(TWEET, TWEET.sourceAccount);
+    const poster = new BlueskyPoster(
+      new BskyAgent({ service: 'https://bsky.social' }),
+      dryRun,
+      fetcher
+    );
+    const post = poster.createPost(TWEET);
+    await vi.runAllTimersAsync();
+    await post;
+    return dryRun.planned[0].records[0].record;
+  }
+
+  it('attaches a card for the first link of a text-only post', async () => {
+    const record = await plannedRecord({
+      fetchMetadata: async (url) => ({
+        url,
+        title: 'An article',
+        description: 'What it says',
+      }),
+    });
+
+    expect(record.embed).toEqual({
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: 'https://example.com/articles/1',
+        title: 'An article',
+        description: 'What it says',
+      },
+    });
+  });
+
+  it('posts without a card when the preview cannot be fetched', async () => {
+    const record = await plannedRecord({
+      fetchMetadata: async () => {
+        throw new Error('Failed to fetch: Service Unavailable (503)');
+      },
+    });
+
+    expect(record.text).toBe('Worth a read example.com/articles/1');
+    expect(record.embed).toBeUndefined();
+    expect(record.facets).toHaveLength(1);
+  });
+});
@@ -1,37 +1,212 @@
-import { AppBskyFeedDefs, BskyAgent, RichText } from '@atproto/api';
-import { TweetData, AccountPair } from '../types';
+import {
+  AppBskyFeedDefs,
+  AppBskyRichtextFacet,
+  AtpSessionData,
+  AtpSessionEvent,
+  BskyAgent,
+} from '@atproto/api';
+import {
+  TweetData,
+  AccountPair,
+  MentionPolicy,
+  PostRef,
+  ReplyRefs,
+} from '../types';
+import { BlueskyVideoUploader } from './bluesky-video-uploader';
+import { DryRunRecorder } from './dry-run-recorder';
+import { normalizeImage } from './media-normalizer';
+import { resolvePdsUrl } from './pds-resolver';
+import { LinkMetadataFetcher, OpenGraphFetcher } from './link-preview';
+import {
+  linkFacets,
+  mentionAndTagFacets,
+  shortenLinks,
+} from './rich-text';
+import { splitIntoThreadParts } from './text-splitter';
+import { SessionStore } from './session-store';
+import { MirrorMetrics, MirrorMetricsScope } from './mirror-metrics';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'bluesky' });
+
+const DEFAULT_SERVICE_URL = 'https://bsky.social';
+// Public AppView, used for read-only lookups when a dry run doesn't log in
+const PUBLIC_APPVIEW_URL = 'https://public.api.bsky.app';
+
+// Re-login backoff after a failed login or an expired session
+const RELOGIN_BASE_DELAY_MS = 30 * 1000;
+const RELOGIN_MAX_DELAY_MS = 30 * 60 * 1000;
+
+interface ReloginState {
+  attempts: number;
+  timer?: NodeJS.Timeout;
+}
 
 export class BlueskyService {
   private agents: Map<string, BskyAgent>;
   private recentPosts: Map<string, string[]> = new Map<string, string[]>(); // Store recent post texts by account
-
-  constructor() {
+  private pairs = new Map<string, AccountPair>();
+  private relogins = new Map<string, ReloginState>();
+
+  // With a dry run recorder nothing is logged into, uploaded or posted
+  constructor(
+    private dryRun?: DryRunRecorder,
+    private linkFetcher: LinkMetadataFetcher = new OpenGraphFetcher(),
+    private metrics?: MirrorMetrics
+  ) {
     this.agents = new Map();
   }
 
   async initialize(accountPairs: AccountPair[]): Promise<void> {
     for (const pair of accountPairs) {
-      const bsky = new BskyAgent({
-        service: 'https://bsky.social',
-      });
+      if (this.dryRun) {
+        this.pairs.set(pair.twitter, pair);
+        this.agents.set(
+          pair.twitter,
+          new BskyAgent({ service: PUBLIC_APPVIEW_URL })
+        );
+        log.info(
+          `Dry run: not logging into ${pair.bluesky.identifier} to mirror ${pair.twitter}`
+        );
+        await this.loadRecentPosts(pair.twitter, pair.bluesky.identifier);
+        continue;
+      }
+
+      try {
+        await this.connect(pair);
+      } catch (error) {
+        // One account failing to log in mustn't stop the other mirrors
+        log.error(
+          `Failed to log into Bluesky with ${pair.bluesky.identifier} to mirror ${pair.twitter}`,
+          error
+        );
+        this.scheduleRelogin(pair);
+      }
+    }
+  }
 
+  /**
+   * Connect a mirror's Bluesky account, resuming its saved session if it
+   * still works and logging in with the app password otherwise. The agent
+   * refreshes the session by itself and every refresh is saved; if the
+   * session expires for good, a re-login is scheduled.
+   */
+  async connect(pair: AccountPair): Promise<'resumed' | 'logged-in'> {
+    this.pairs.set(pair.twitter, pair);
+    const service = await this.serviceUrlFor(pair);
+    const bsky: BskyAgent = new BskyAgent({
+      service,
+      persistSession: (event, session) =>
+        this.onSessionEvent(pair, service, bsky, event, session),
+    });
+
+    let how: 'resumed' | 'logged-in' = 'resumed';
+    const saved = await SessionStore.load(pair, service);
+    if (saved) {
+      try {
+        await bsky.resumeSession(saved);
+      } catch (error) {
+        log.warn(
+          `Could not resume Bluesky session for ${pair.bluesky.identifier}, logging in: ${error.message}`
+        );
+      }
+    }
+    if (!bsky.hasSession) {
+      how = 'logged-in';
       await bsky.login({
         identifier: pair.bluesky.identifier,
         password: pair.bluesky.password,
       });
+    }
 
-      this.agents.set(pair.twitter, bsky);
+    this.agents.set(pair.twitter, bsky);
+    this.cancelRelogin(pair);
 
-      console.log(
-        `Successfully logged into Bluesky with ${pair.bluesky.identifier} to mirror ${pair.twitter}`
+    log.info(
+      `Successfully ${how === 'resumed' ? 'resumed session' : 'logged into Bluesky'} with ${pair.bluesky.identifier} to mirror ${pair.twitter}`
+    );
+
+    // Initialize recent posts cache for this account
+    await this.loadRecentPosts(pair.twitter);
+    return how;
+  }
+
+  private async serviceUrlFor(pair: AccountPair): Promise<string> {
+    if (pair.pdsUrl !== 'auto') {
+      return pair.pdsUrl || DEFAULT_SERVICE_URL;
+    }
+    const service = await resolvePdsUrl(pair.bluesky.identifier);
+    log.debug(`Resolved PDS for ${pair.bluesky.identifier}: ${service}`);
+    return service;
+  }
+
+  private onSessionEvent(
+    pair: AccountPair,
+    service: string,
+    bsky: BskyAgent,
+    event: AtpSessionEvent,
+    session?: AtpSessionData
+  ): void {
+    if ((event === 'create' || event === 'update') && session) {
+      SessionStore.save(pair, service, session).catch((error) =>
+        log.error(`Failed to save Bluesky session for ${pair.twitter}`, error)
+      );
+    } else if (event === 'expired') {
+      SessionStore.clear(pair).catch((error) =>
+        log.error(`Failed to clear Bluesky session for ${pair.twitter}`, error)
       );
+      // While connecting, connect() falls back to logging in by itself
+      if (this.agents.get(pair.twitter) === bsky) {
+        log.warn(`Bluesky session for ${pair.bluesky.identifier} expired`);
+        this.scheduleRelogin(pair);
+      }
+    }
+  }
 
-      // Initialize recent posts cache for this account
-      await this.loadRecentPosts(pair.twitter);
+  private scheduleRelogin(pair: AccountPair): void {
+    const state = this.relogins.get(pair.twitter) ?? { attempts: 0 };
+    this.relogins.set(pair.twitter, state);
+    if (state.timer) return;
+
+    const delayMs = Math.min(
+      RELOGIN_MAX_DELAY_MS,
+      RELOGIN_BASE_DELAY_MS * 2 ** state.attempts
+    );
+    state.attempts++;
+    log.info(
+      `Re-logging into Bluesky with ${pair.bluesky.identifier} in ${delayMs / 1000}s (attempt ${state.attempts})`
+    );
+
+    state.timer = setTimeout(async () => {
+      state.timer = undefined;
+      try {
+        await this.connect(pair);
+      } catch (error) {
+        log.error(
+          `Re-login to Bluesky with ${pair.bluesky.identifier} failed`,
+          error
+        );
+        this.scheduleRelogin(pair);
+      }
+    }, delayMs);
+  }
+
+  private cancelRelogin(pair: AccountPair): void {
+    clearTimeout(this.relogins.get(pair.twitter)?.timer);
+    this.relogins.delete(pair.twitter);
+  }
+
+  // Stop pending re-logins so shutdown isn't held up by their timers
+  cleanup(): void {
+    for (const pair of this.pairs.values()) {
+      this.cancelRelogin(pair);
     }
   }
 
-  private async loadRecentPosts(sourceAccount: string): Promise<void> {
+  private async loadRecentPosts(
+    sourceAccount: string,
+    actor?: string
+  ): Promise<void> {
     const bskyAgent = this.agents.get(sourceAccount);
     if (!bskyAgent) {
       throw new Error(`No Bluesky agent found for ${sourceAccount}`);
@@ -40,7 +215,7 @@ export class BlueskyService {
     try {
       // Get the user's profile to get their DID
       const profile = await bskyAgent.getProfile({
-        actor: bskyAgent.session?.did || '',
+        actor: bskyAgent.session?.did || actor || '',
       });
 
       const response = await bskyAgent.getAuthorFeed({
@@ -65,13 +240,12 @@ export class BlueskyService {
       for (const p of posts) recentPostTexts.push(p.text);
 
       this.recentPosts.set(sourceAccount, recentPostTexts);
-      console.log(
-        '\n\n=== MOST RECENT BSKY POSTS FOR ' + sourceAccount + '==='
+      log.debug(
+        `Loaded ${recentPostTexts.length} recent Bluesky posts for ${sourceAccount}`,
+        { posts: recentPostTexts }
       );
-      for (const p of recentPostTexts) console.log(' - ' + p);
-      console.log('==================================\n\n');
     } catch (error) {
-      console.error('Error loading recent posts:', error);
+      log.error('Error loading recent posts', error);
       this.recentPosts.set(sourceAccount, []);
     }
   }
@@ -86,44 +260,68 @@ export class BlueskyService {
     }
 
     // Clean up the text for comparison (remove URLs, normalize whitespace)
-    const cleanText = text
-      .replace(/https?:\/\/\S+/g, '')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .toLowerCase()
-      .substring(0, 70);
-
-    // Check if any recent post matches this text
-    for (const existingPost of recentPosts) {
-      const cleanExisting = existingPost
+    const clean = (postText: string) =>
+      postText
         .replace(/https?:\/\/\S+/g, '')
         .replace(/\s+/g, ' ')
         .trim()
         .toLowerCase()
         .substring(0, 70);
+    // Mirrored posts show links as short labels rather than URLs
+    const cleanTexts = [clean(text), clean(shortenLinks(text).text)];
+
+    // Check if any recent post matches this text
+    for (const existingPost of recentPosts) {
+      const cleanExisting = clean(existingPost);
 
       // return false;
-      if (cleanText === cleanExisting) {
+      if (cleanTexts.includes(cleanExisting)) {
         return true;
       }
     }
     return false;
   }
 
-  async postTweet(tweet: TweetData, sourceAccount: string): Promise<void> {
+  async postTweet(
+    tweet: TweetData,
+    sourceAccount: string,
+    replyTo?: ReplyRefs
+  ): Promise<PostResult | undefined> {
     const bskyAgent = this.agents.get(sourceAccount);
     if (!bskyAgent) {
       throw new Error(`No Bluesky agent found for ${sourceAccount}`);
     }
+    const pair = this.pairs.get(sourceAccount);
+    if (pair && !this.dryRun && !bskyAgent.hasSession) {
+      this.scheduleRelogin(pair);
+      throw new Error(
+        `Bluesky session for ${pair.bluesky.identifier} has expired, re-login pending`
+      );
+    }
 
     // Check for duplicates before posting
     if (this.isDuplicateWithRecentBlueskyPosts(tweet.text, sourceAccount)) {
-      console.log(`Skipping duplicate tweet: ${tweet.text}`);
-      return;
+      log.info(`Skipping duplicate tweet: ${tweet.text}`);
+      return undefined;
     }
 
-    console.log('Posting tweet ' + tweet.text);
-    await new BlueskyPoster(bskyAgent).createPost(tweet);
+    log.info('Posting tweet ' + tweet.text);
+    this.dryRun?.begin(tweet, sourceAccount);
+    let result;
+    try {
+      result = await new BlueskyPoster(
+        bskyAgent,
+        this.dryRun,
+        this.linkFetcher,
+        this.metrics?.forMirror(sourceAccount)
+      ).createPost(tweet, replyTo, pair?.mentions);
+    } catch (error) {
+      // Revoked sessions can fail without the agent noticing
+      if (pair && !this.dryRun && error?.status === 401) {
+        this.scheduleRelogin(pair);
+      }
+      throw error;
+    }
 
     //add to recent posts
     const recentPosts = this.recentPosts.get(sourceAccount);
@@ -131,22 +329,75 @@ export class BlueskyService {
     if (recentPosts) {
       while (recentPosts?.length > 0) recentPosts.pop();
     }
+
+    return result;
   }
+
+  async deletePosts(sourceAccount: string, posts: PostRef[]): Promise<void> {
+    const bskyAgent = this.agents.get(sourceAccount);
+    if (!bskyAgent) {
+      throw new Error(`No Bluesky agent found for ${sourceAccount}`);
+    }
+
+    // Remove thread chunks last-first so no reply is left orphaned mid-way
+    for (const post of [...posts].reverse()) {
+      log.info(`Deleting Bluesky post ${post.uri}`);
+      await bskyAgent.deletePost(post.uri);
+    }
+  }
+}
+
+export interface PostResult {
+  success: boolean;
+  uri: string;
+  cid: string;
+  root: PostRef; // Thread root, which is the parent's root when replying
+  isThread?: boolean;
+  threadPosts?: PostRef[];
 }
 
 interface ImageUploadResult {
   success: boolean;
   blob?: any;
+  aspectRatio?: { width: number; height: number };
   error?: string;
 }
 
 export class BlueskyPoster {
   private agent: BskyAgent;
 
-  constructor(agent: BskyAgent) {
+  // Metrics count failed media uploads and the latency of mirrored posts
+  constructor(
+    agent: BskyAgent,
+    private dryRun?: DryRunRecorder,
+    private linkFetcher: LinkMetadataFetcher = new OpenGraphFetcher(),
+    private metrics?: MirrorMetricsScope
+  ) {
     this.agent = agent;
   }
 
+  // Images are URLs, or bytes the scraper already downloaded (Truth Social)
+  private async uploadSourceImage(
+    image: string | Buffer
+  ): Promise<ImageUploadResult> {
+    if (typeof image === 'string') {
+      return this.fetchAndUploadImage(image);
+    }
+    try {
+      return await this.uploadImageBytes(image);
+    } catch (error) {
+      this.metrics?.failure('upload');
+      log.error('Image upload error', error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown error during image upload',
+      };
+    }
+  }
+
   private async fetchAndUploadImage(
     imageUrl: string
   ): Promise<ImageUploadResult> {
@@ -157,7 +408,7 @@ export class BlueskyPoster {
         'https://pbs.twimg.com/media/$1.$2'
       );
 
-      console.log(`Attempting to fetch image from: ${modifiedUrl}`);
+      log.debug(`Attempting to fetch image from: ${modifiedUrl}`);
 
       const response = await fetch(modifiedUrl, {
         headers: {
@@ -181,35 +432,14 @@ export class BlueskyPoster {
         throw new Error('Received empty image data');
       }
 
-      console.log(
+      log.debug(
         `Successfully fetched image, size: ${uint8Array.length} bytes`
       );
 
-      // Get content type from response, or infer it
-      let contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.startsWith('image/')) {
-        const extension = modifiedUrl.split('.').pop()?.toLowerCase();
-        contentType =
-          extension === 'jpg' || extension === 'jpeg'
-            ? 'image/jpeg'
-            : `image/${extension}`;
-      }
-
-      const { data } = await this.agent.uploadBlob(uint8Array, {
-        encoding: contentType,
-      });
-
-      if (!data.blob || data.blob.size === 0) {
-        throw new Error('Blob upload succeeded but resulted in empty blob');
-      }
-
-      console.log('Successfully uploaded image to Bluesky');
-      return {
-        success: true,
-        blob: data.blob,
-      };
+      return await this.uploadImageBytes(uint8Array);
     } catch (error) {
-      console.error('Image upload error:', error);
+      this.metrics?.failure('upload');
+      log.error('Image upload error', error);
       return {
         success: false,
         error:
@@ -219,65 +449,164 @@ export class BlueskyPoster {
       };
     }
   }
-  private readonly CHAR_LIMIT = 299;
+  // Convert/shrink the image as needed, then upload it as a blob
+  private async uploadImageBytes(
+    bytes: Uint8Array
+  ): Promise<ImageUploadResult> {
+    const image = await normalizeImage(bytes);
 
-  private splitTextIntoChunks(text: string): string[] {
-    
-    // Leave more room for thread markers (e.g., "1/5 " = 4 chars)
-    const SAFE_LIMIT = this.CHAR_LIMIT - 20;
+    if (this.dryRun) {
+      return {
+        success: true,
+        blob: this.dryRun.placeholderBlob(image.mimeType, image.bytes.length),
+        aspectRatio: toAspectRatio(image),
+      };
+    }
 
-    //no chunking if text is already safe
-    if(text.length<SAFE_LIMIT) return [text];
-    const chunks: string[] = [];
+    const { data } = await this.agent.uploadBlob(image.bytes, {
+      encoding: image.mimeType,
+    });
 
-    // First try splitting on sentences
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-    let currentChunk = '';
+    if (!data.blob || data.blob.size === 0) {
+      throw new Error('Blob upload succeeded but resulted in empty blob');
+    }
 
-    for (const sentence of sentences) {
-      if ((currentChunk + sentence).length <= SAFE_LIMIT) {
-        currentChunk += sentence;
-      } else {
-        // If current chunk is not empty, save it
-        if (currentChunk) {
-          chunks.push(currentChunk.trim());
-        }
+    log.debug('Successfully uploaded image to Bluesky');
+    return {
+      success: true,
+      blob: data.blob,
+      aspectRatio: toAspectRatio(image),
+    };
+  }
 
-        // If sentence is longer than limit, split on spaces
-        if (sentence.length > SAFE_LIMIT) {
-          const words = sentence.split(/\s+/);
-          currentChunk = '';
-
-          for (const word of words) {
-            if ((currentChunk + ' ' + word).length <= SAFE_LIMIT) {
-              currentChunk += (currentChunk ? ' ' : '') + word;
-            } else {
-              if (currentChunk) {
-                chunks.push(currentChunk.trim());
-              }
-              currentChunk = word;
-            }
-          }
-        } else {
-          currentChunk = sentence;
-        }
+  // Upload the first video natively, falling back to an external card
+  // pointing at the source when it's too big, too long or fails to process
+  private async buildVideoEmbed(postData: TweetData, thumbnail?: Buffer) {
+    const videoUrl = postData.videos[0];
+
+    const videoUpload = await new BlueskyVideoUploader(
+      this.agent,
+      this.dryRun
+    ).uploadFromUrl(videoUrl, postData.videoMetadata?.[0]);
+    if (videoUpload.success) {
+      return videoUpload.embed;
+    }
+    this.metrics?.failure('upload');
+    log.warn(
+      `Falling back to external video card: ${videoUpload.error}`
+    );
+
+    const embedData: any = {
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: videoUrl,
+        title: 'Video',
+        description: postData.text.substring(0, 300),
+      },
+    };
+
+    // Add thumbnail if we have it
+    if (thumbnail) {
+      try {
+        const upload = await this.uploadImageBytes(thumbnail);
+        embedData.external.thumb = upload.blob;
+      } catch (error) {
+        this.metrics?.failure('upload');
+        log.warn(
+          'Failed to upload video thumbnail, continuing without it',
+          error
+        );
       }
     }
 
-    // Add any remaining text
-    if (currentChunk) {
-      chunks.push(currentChunk.trim());
+    return embedData;
+  }
+
+  // Link card to a reposted/quoted post, using its first image as the thumb
+  private async buildQuoteCardEmbed(postData: TweetData) {
+    const embedData: any = {
+      $type: 'app.bsky.embed.external',
+      external: {
+        ...postData.quoteCard,
+        description: postData.quoteCard!.description.substring(0, 300),
+      },
+    };
+
+    const firstImage = postData.images?.[0];
+    if (firstImage) {
+      const upload = await this.uploadSourceImage(firstImage);
+      if (upload.success && upload.blob) {
+        embedData.external.thumb = upload.blob;
+      }
     }
 
-    // Verify no chunk is too long
-    return chunks.map((chunk) => {
-      if (chunk.length > SAFE_LIMIT) {
-        // If still too long, force split at limit
-        return chunk.substring(0, SAFE_LIMIT);
+    return embedData;
+  }
+
+  private async buildLinkCardEmbed(url?: string) {
+    if (!url) {
+      return undefined;
+    }
+
+    let metadata;
+    try {
+      metadata = await this.linkFetcher.fetchMetadata(url);
+    } catch (error) {
+      log.warn(`Failed to fetch link preview for ${url}`, error);
+      return undefined;
+    }
+    if (!metadata) {
+      return undefined;
+    }
+
+    const embedData: any = {
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: url,
+        title: metadata.title.substring(0, 300),
+        description: metadata.description.substring(0, 1000),
+      },
+    };
+
+    if (metadata.imageUrl) {
+      const upload = await this.fetchAndUploadImage(metadata.imageUrl);
+      if (upload.success && upload.blob) {
+        embedData.external.thumb = upload.blob;
       }
-      return chunk;
-    });
+    }
+
+    return embedData;
   }
+
+  // Pair each successful upload with the alt text scraped for that image
+  private buildImagesEmbed(
+    postData: TweetData,
+    imageUploads: ImageUploadResult[],
+    fallbackAlt: string
+  ) {
+    const images = imageUploads
+      .map((upload, i) => ({ upload, alt: postData.imageMetadata?.[i]?.alt }))
+      .filter(({ upload }) => upload.success && upload.blob)
+      .map(({ upload, alt }) => {
+        const image: any = {
+          alt: alt || fallbackAlt,
+          image: upload.blob,
+        };
+        if (upload.aspectRatio) {
+          image.aspectRatio = upload.aspectRatio;
+        }
+        return image;
+      });
+
+    if (images.length === 0) {
+      return undefined;
+    }
+    return {
+      $type: 'app.bsky.embed.images',
+      images,
+    };
+  }
+
   // Create a single post with media
   private async createSinglePost(
     text: string,
@@ -286,14 +615,12 @@ export class BlueskyPoster {
       root?: { uri: string; cid: string },
       parent: { uri: string; cid: string }
     },
-    timestamp?: string
+    timestamp?: string,
+    facets: AppBskyRichtextFacet.Main[] = []
   ) {
-    const rt = new RichText({ text });
-    await rt.detectFacets(this.agent);
-
     const postData: any = {
-      text: rt.text,
-      facets: rt.facets,
+      text,
+      facets: facets.length > 0 ? facets : undefined,
       embed,
     };
 
@@ -308,10 +635,23 @@ export class BlueskyPoster {
       postData.createdAt = new Date(timestamp).toISOString();
     }
 
+    if (this.dryRun) {
+      // The record exactly as agent.post() would write it
+      return this.dryRun.recordPost({
+        $type: 'app.bsky.feed.post',
+        ...postData,
+        createdAt: postData.createdAt || new Date().toISOString(),
+      });
+    }
+
     return await this.agent.post(postData);
   }
 
-  async createPost(postData: TweetData) {
+  async createPost(
+    postData: TweetData,
+    replyTo?: ReplyRefs,
+    mentionPolicy?: MentionPolicy
+  ): Promise<PostResult> {
     await new Promise((f) => setTimeout(f, 1000));
 
     if (!this.agent) {
@@ -319,99 +659,54 @@ export class BlueskyPoster {
     }
 
     try {
-      // Always split the text into chunks first
-      const textChunks = this.splitTextIntoChunks(postData.text);
-      console.log(`Split text into ${textChunks.length} chunks:`);
-      textChunks.forEach((chunk, i) =>
-        console.log(
-          `Chunk ${i + 1}/${textChunks.length}: ${chunk.length} chars`
-        )
+      // Always split the text into chunks first, thread markers included
+      const { text, links } = shortenLinks(postData.text);
+      const threadParts = splitIntoThreadParts(text);
+      const textChunks = threadParts.map(({ marker, body }) => marker + body);
+      // Facets are built here rather than detected by RichText, which would
+      // link shortened labels to themselves and tag same-named Bluesky users
+      const chunkFacets = linkFacets(threadParts, links).map(
+        (facets, i) =>
+          [
+            ...facets,
+            ...mentionAndTagFacets(
+              textChunks[i],
+              postData.platform,
+              mentionPolicy,
+              facets
+            ),
+          ].sort((a, b) => a.index.byteStart - b.index.byteStart)
       );
+      log.debug(`Split text into ${textChunks.length} chunks`);
 
       // Prepare media embed (only for the first post in thread)
       let embed = undefined;
 
       // Inside the createPost method, update the Truth Social video handling:
 
-      if (postData.platform === 'truthsocial') {
+      if (postData.quoteCard) {
+        embed = await this.buildQuoteCardEmbed(postData);
+      } else if (postData.platform === 'truthsocial') {
         // Handle Truth Social direct video URLs
         if (postData.videos?.length > 0) {
-          const videoUrl = postData.videos[0];
-          const thumbnail = postData.videoThumbnails?.[0];
-
-          // Create external embed with video link
-          const embedData: any = {
-            $type: 'app.bsky.embed.external',
-            external: {
-              uri: videoUrl,
-              title: 'Video',
-              description: postData.text.substring(0, 300),
-            },
-          };
-
-          // Add thumbnail if we have it
-          if (thumbnail) {
-            try {
-              const { data } = await this.agent.uploadBlob(thumbnail, {
-                encoding: 'image/jpeg',
-              });
-
-              if (data.blob) {
-                embedData.external.thumb = data.blob;
-              }
-            } catch (error) {
-              console.log(
-                'Failed to upload video thumbnail, continuing without it:',
-                error
-              );
-            }
-          }
-
-          embed = embedData;
+          embed = await this.buildVideoEmbed(
+            postData,
+            postData.videoThumbnails?.[0]
+          );
         }
         // Handle Truth Social images if no video
         else if (postData.images?.length) {
           const imageUploads = await Promise.all(
-            postData.images.slice(0, 4).map(async (imageBuffer) => {
-              try {
-                const { data } = await this.agent.uploadBlob(imageBuffer, {
-                  encoding: 'image/jpeg',
-                });
-
-                return {
-                  success: true,
-                  blob: data.blob,
-                };
-              } catch (error) {
-                console.error('Image upload error:', error);
-                return {
-                  success: false,
-                  error:
-                    error instanceof Error
-                      ? error.message
-                      : 'Unknown error during image upload',
-                };
-              }
-            })
+            postData.images
+              .slice(0, 4)
+              .map((image) => this.uploadSourceImage(image))
           );
 
-          const successfulUploads = imageUploads.filter(
-            (upload) => upload.success && upload.blob
+          embed = this.buildImagesEmbed(
+            postData,
+            imageUploads,
+            'Image from original post'
           );
-
-          if (successfulUploads.length > 0) {
-            embed = {
-              $type: 'app.bsky.embed.images',
-              images: successfulUploads.map((upload) => ({
-                alt: 'Image from original post',
-                image: upload.blob,
-                aspectRatio: {
-                  width: 1,
-                  height: 1,
-                },
-              })),
-            };
-          }
         }
       } else {
         // Original handling for other platforms
@@ -441,6 +736,8 @@ export class BlueskyPoster {
                 },
               };
             }
+          } else {
+            embed = await this.buildVideoEmbed(postData);
           }
         }
         // Handle images if no video
@@ -448,44 +745,36 @@ export class BlueskyPoster {
           const imageUploads = await Promise.all(
             postData.images
               .slice(0, 4)
-              .map((url) => this.fetchAndUploadImage(url))
+              .map((image) => this.uploadSourceImage(image))
           );
 
-          const successfulUploads = imageUploads.filter(
-            (upload) => upload.success && upload.blob
+          embed = this.buildImagesEmbed(
+            postData,
+            imageUploads,
+            'Image from original tweet'
           );
-
-          if (successfulUploads.length > 0) {
-            embed = {
-              $type: 'app.bsky.embed.images',
-              images: successfulUploads.map((upload) => ({
-                alt: 'Image from original tweet',
-                image: upload.blob,
-                aspectRatio: {
-                  width: 1,
-                  height: 1,
-                },
-              })),
-            };
-          }
         }
       }
 
+      // Text-only posts get a preview card for their first link
+      if (!embed) {
+        embed = await this.buildLinkCardEmbed(links[0]?.uri);
+      }
+
       // Create posts
-      // Never try to post a single post if we have multiple chunks
-      if (textChunks.length > 1 || textChunks[0].length > this.CHAR_LIMIT) {
+      if (textChunks.length > 1) {
         // Create thread for multiple chunks
-        let rootRef: { uri: string; cid: string } | undefined;
-        let parentRef: { uri: string; cid: string } | undefined;
+        let rootRef: { uri: string; cid: string } | undefined = replyTo?.root;
+        let parentRef: { uri: string; cid: string } | undefined =
+          replyTo?.parent;
         const posts = [];
   
         for (let i = 0; i < textChunks.length; i++) {
           const chunk = textChunks[i];
           const postEmbed = i === 0 ? embed : undefined;
-          const threadMarker = `${i + 1}/${textChunks.length} `;
   
           let threadInfo;
-          if (i > 0 && parentRef) {  // Only create threadInfo if we have a parent and it's not the first post
+          if (parentRef) {  // Only create threadInfo if we have a parent (a reply target or an earlier chunk)
             threadInfo = {
               root: rootRef,
               parent: parentRef
@@ -493,15 +782,16 @@ export class BlueskyPoster {
           }
   
           const post = await this.createSinglePost(
-            threadMarker + chunk,
+            chunk,
             postEmbed,
             threadInfo,
-            postData.timestamp
+            postData.timestamp,
+            chunkFacets[i]
           );
   
           posts.push(post);
           
-          if (i === 0) {
+          if (!rootRef) {
             rootRef = { uri: post.uri, cid: post.cid };
           }
           parentRef = { uri: post.uri, cid: post.cid };
@@ -512,10 +802,12 @@ export class BlueskyPoster {
           }
         }
   
+        this.metrics?.mirrored(postData.timestamp);
         return {
           success: true,
           uri: posts[0].uri,
           cid: posts[0].cid,
+          root: rootRef!,
           isThread: true,
           threadPosts: posts.map(p => ({ uri: p.uri, cid: p.cid }))
         };
@@ -524,19 +816,29 @@ export class BlueskyPoster {
         const post = await this.createSinglePost(
           textChunks[0],
           embed,
-          undefined,
-          postData.timestamp
+          replyTo,
+          postData.timestamp,
+          chunkFacets[0]
         );
 
+        this.metrics?.mirrored(postData.timestamp);
         return {
           success: true,
           uri: post.uri,
           cid: post.cid,
+          root: replyTo?.root ?? { uri: post.uri, cid: post.cid },
         };
       }
     } catch (error) {
-      console.error('Post creation error:', error);
+      log.error('Post creation error', error);
       throw error;
     }
   }
 }
+
+function toAspectRatio(info: { width?: number; height?: number }) {
+  if (!info.width || !info.height) {
+    return undefined;
+  }
+  return { width: info.width, height: info.height };
+}
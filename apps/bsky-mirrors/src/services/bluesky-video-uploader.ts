@@ -0,0 +1,332 @@
+// src/services/bluesky-video-uploader.ts
+import { BskyAgent } from '@atproto/api';
+import { VideoMetadata } from '../types';
+import { DryRunRecorder } from './dry-run-recorder';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'video-uploader' });
+
+const VIDEO_SERVICE_URL = 'https://video.bsky.app';
+const VIDEO_SERVICE_DID = 'did:web:video.bsky.app';
+
+// Limits from the app.bsky.embed.video lexicon and the video service
+const MAX_VIDEO_BYTES = 50 * 1000 * 1000;
+const MAX_VIDEO_SECONDS = 180;
+const MAX_CAPTIONS = 20;
+const MAX_CAPTION_BYTES = 20000;
+const MAX_ALT_LENGTH = 1000;
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+const FETCH_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export interface VideoUploadResult {
+  success: boolean;
+  embed?: any;
+  error?: string;
+}
+
+interface Mp4Info {
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Uploads source videos through Bluesky's video service so they are posted
+ * as native `app.bsky.embed.video` embeds rather than links to the source.
+ */
+export class BlueskyVideoUploader {
+  // A dry run downloads and checks the video but uploads nothing
+  constructor(private agent: BskyAgent, private dryRun?: DryRunRecorder) {}
+
+  async uploadFromUrl(
+    videoUrl: string,
+    metadata?: VideoMetadata,
+    fallbackAlt = 'Video from original post'
+  ): Promise<VideoUploadResult> {
+    try {
+      const bytes = await this.downloadVideo(videoUrl);
+
+      const info = readMp4Info(bytes);
+      if (info.durationSeconds && info.durationSeconds > MAX_VIDEO_SECONDS) {
+        throw new Error(
+          `Video is ${Math.round(
+            info.durationSeconds
+          )}s, limit is ${MAX_VIDEO_SECONDS}s`
+        );
+      }
+
+      let blob;
+      if (this.dryRun) {
+        blob = this.dryRun.placeholderBlob('video/mp4', bytes.length);
+      } else {
+        await this.checkUploadLimits();
+        blob = await this.uploadToVideoService(bytes, videoUrl);
+      }
+
+      const embed: any = {
+        $type: 'app.bsky.embed.video',
+        video: blob,
+        alt: (metadata?.alt || fallbackAlt).substring(0, MAX_ALT_LENGTH),
+      };
+      if (info.width && info.height) {
+        embed.aspectRatio = { width: info.width, height: info.height };
+      }
+
+      const captions = await this.uploadCaptions(metadata);
+      if (captions.length > 0) {
+        embed.captions = captions;
+      }
+
+      log.info(
+        this.dryRun
+          ? `Dry run: planned video embed for ${videoUrl}`
+          : `Successfully uploaded video ${videoUrl} to Bluesky`
+      );
+      return { success: true, embed };
+    } catch (error) {
+      log.error(`Video upload error for ${videoUrl}`, error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown error during video upload',
+      };
+    }
+  }
+
+  private async downloadVideo(videoUrl: string): Promise<Uint8Array> {
+    const response = await fetch(videoUrl, { headers: FETCH_HEADERS });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch video: ${response.statusText} (${response.status})`
+      );
+    }
+
+    // Bail out before downloading if the server tells us it's too big
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > MAX_VIDEO_BYTES) {
+      throw new Error(
+        `Video is ${contentLength} bytes, limit is ${MAX_VIDEO_BYTES}`
+      );
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length === 0) {
+      throw new Error('Received empty video data');
+    }
+    if (bytes.length > MAX_VIDEO_BYTES) {
+      throw new Error(
+        `Video is ${bytes.length} bytes, limit is ${MAX_VIDEO_BYTES}`
+      );
+    }
+    // Bluesky only accepts MP4, which always starts with an ftyp box
+    if (String.fromCharCode(...bytes.subarray(4, 8)) !== 'ftyp') {
+      throw new Error('Video is not an MP4 file');
+    }
+
+    log.debug(`Successfully fetched video, size: ${bytes.length} bytes`);
+    return bytes;
+  }
+
+  private async getServiceToken(aud: string, lxm: string): Promise<string> {
+    const { data } = await this.agent.com.atproto.server.getServiceAuth({
+      aud,
+      lxm,
+      exp: Math.floor(Date.now() / 1000) + 60 * 30,
+    });
+    return data.token;
+  }
+
+  private async checkUploadLimits(): Promise<void> {
+    const token = await this.getServiceToken(
+      VIDEO_SERVICE_DID,
+      'app.bsky.video.getUploadLimits'
+    );
+    const response = await fetch(
+      `${VIDEO_SERVICE_URL}/xrpc/app.bsky.video.getUploadLimits`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to get video upload limits (${response.status})`);
+    }
+
+    const limits = await response.json();
+    if (!limits.canUpload) {
+      throw new Error(
+        `Account cannot upload videos: ${limits.message || limits.error}`
+      );
+    }
+  }
+
+  private async uploadToVideoService(
+    bytes: Uint8Array,
+    videoUrl: string
+  ): Promise<any> {
+    const did = this.agent.session?.did;
+    if (!did) {
+      throw new Error('Agent not logged in');
+    }
+
+    // The video service writes the blob to our PDS on our behalf
+    const pdsHost = (this.agent.pdsUrl ?? this.agent.serviceUrl).host;
+    const token = await this.getServiceToken(
+      `did:web:${pdsHost}`,
+      'com.atproto.repo.uploadBlob'
+    );
+
+    const name = `${Date.now()}-${
+      new URL(videoUrl).pathname.split('/').pop() || 'video.mp4'
+    }`;
+    const uploadUrl = new URL(
+      `${VIDEO_SERVICE_URL}/xrpc/app.bsky.video.uploadVideo`
+    );
+    uploadUrl.searchParams.set('did', did);
+    uploadUrl.searchParams.set('name', name);
+
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'video/mp4',
+        'Content-Length': String(bytes.length),
+      },
+      body: bytes,
+    });
+
+    const job = await response.json();
+    // 409 means the service already has this exact video; poll its job anyway
+    if (!response.ok && !(response.status === 409 && job.jobId)) {
+      throw new Error(
+        `Video upload rejected (${response.status}): ${
+          job.message || job.error
+        }`
+      );
+    }
+
+    return await this.waitForJob(job.jobId);
+  }
+
+  private async waitForJob(jobId: string): Promise<any> {
+    const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const response = await fetch(
+        `${VIDEO_SERVICE_URL}/xrpc/app.bsky.video.getJobStatus?jobId=${encodeURIComponent(
+          jobId
+        )}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to get video job status (${response.status})`);
+      }
+
+      const { jobStatus } = await response.json();
+      if (jobStatus.state === 'JOB_STATE_COMPLETED' && jobStatus.blob) {
+        return jobStatus.blob;
+      }
+      if (jobStatus.state === 'JOB_STATE_FAILED') {
+        throw new Error(
+          `Video processing failed: ${jobStatus.message || jobStatus.error}`
+        );
+      }
+
+      await new Promise((f) => setTimeout(f, JOB_POLL_INTERVAL_MS));
+    }
+
+    throw new Error(`Timed out waiting for video job ${jobId}`);
+  }
+
+  private async uploadCaptions(metadata?: VideoMetadata): Promise<any[]> {
+    const captions = [];
+    for (const caption of (metadata?.captions || []).slice(0, MAX_CAPTIONS)) {
+      try {
+        const response = await fetch(caption.url, { headers: FETCH_HEADERS });
+        if (!response.ok) {
+          throw new Error(`${response.statusText} (${response.status})`);
+        }
+
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.length > MAX_CAPTION_BYTES) {
+          throw new Error(`caption file is ${bytes.length} bytes`);
+        }
+
+        const file = this.dryRun
+          ? this.dryRun.placeholderBlob('text/vtt', bytes.length)
+          : (await this.agent.uploadBlob(bytes, { encoding: 'text/vtt' })).data
+              .blob;
+        captions.push({ lang: caption.lang, file });
+      } catch (error) {
+        log.warn(
+          `Failed to upload captions from ${caption.url}, continuing without them`,
+          error
+        );
+      }
+    }
+    return captions;
+  }
+}
+
+/**
+ * Reads duration and display size from an MP4's moov box. Fields are left
+ * undefined if the file isn't a parseable MP4.
+ */
+function readMp4Info(bytes: Uint8Array): Mp4Info {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const info: Mp4Info = {};
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = String.fromCharCode(
+        ...bytes.subarray(offset + 4, offset + 8)
+      );
+      let headerSize = 8;
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize || offset + size > end) return;
+
+      const body = offset + headerSize;
+      if (type === 'moov' || type === 'trak') {
+        walk(body, offset + size);
+      } else if (type === 'mvhd') {
+        const version = view.getUint8(body);
+        const timescale = view.getUint32(body + (version === 1 ? 20 : 12));
+        const duration =
+          version === 1
+            ? Number(view.getBigUint64(body + 24))
+            : view.getUint32(body + 16);
+        if (timescale > 0) info.durationSeconds = duration / timescale;
+      } else if (type === 'tkhd' && !info.width) {
+        // Width and height are 16.16 fixed point; audio tracks have zero size
+        const sizeOffset = body + (view.getUint8(body) === 1 ? 88 : 76);
+        const width = view.getUint32(sizeOffset) >>> 16;
+        const height = view.getUint32(sizeOffset + 4) >>> 16;
+        if (width > 0 && height > 0) {
+          info.width = width;
+          info.height = height;
+        }
+      }
+
+      offset += size;
+    }
+  };
+
+  try {
+    walk(0, bytes.length);
+  } catch (error) {
+    // Truncated or unusual container, go with whatever we found
+  }
+  return info;
+}
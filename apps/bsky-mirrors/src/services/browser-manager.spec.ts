@@ -0,0 +1,127 @@
+import type { Page } from 'puppeteer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BrowserManager, DEFAULT_BROWSER_OPTIONS } from './browser-manager';
+
+// Pages of the in-memory browser below that are currently open
+const openPages = new Set<object>();
+
+vi.mock('puppeteer-extra', () => ({
+  default: {
+    use: () => undefined,
+    launch: async () => ({
+      connected: true,
+      once: () => undefined,
+      close: async () => undefined,
+      newPage: async () => {
+        const page = {
+          close: async () => {
+            openPages.delete(page);
+          },
+        };
+        openPages.add(page);
+        return page;
+      },
+    }),
+  },
+}));
+vi.mock('puppeteer-extra-plugin-stealth', () => ({ default: () => ({}) }));
+
+describe('BrowserManager', () => {
+  let browsers: BrowserManager;
+
+  afterEach(async () => {
+    await browsers.close();
+    openPages.clear();
+  });
+
+  function pool(maxPages: number): void {
+    browsers = new BrowserManager({
+      ...DEFAULT_BROWSER_OPTIONS,
+      mode: 'launch',
+      maxPages,
+      acquireTimeoutMs: 200,
+    });
+  }
+
+  it('makes callers wait for a free page, up to the acquire timeout', async () => {
+    pool(1);
+    const page = await browsers.acquirePage();
+
+    await expect(browsers.acquirePage()).rejects.toThrow(
+      'No browser page free after 0.2s (maxPages 1)'
+    );
+
+    const waiting = browsers.acquirePage();
+    await browsers.releasePage(page);
+    await expect(waiting).resolves.toBeDefined();
+  });
+
+  it('opens extra pages for held ones while every place is taken', async () => {
+    pool(2);
+    // Two scrapes at once, each downloading media of the page it holds
+    const scrape = async () => {
+      const page = await browsers.acquirePage();
+      try {
+        return await Promise.all(
+          ['a', 'b'].map((media) =>
+            browsers.withChildPage(page, async (extra) => {
+              expect(extra).not.toBe(page);
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              return media;
+            })
+          )
+        );
+      } finally {
+        await browsers.releasePage(page);
+      }
+    };
+
+    const started = Date.now();
+    expect(await Promise.all([scrape(), scrape()])).toEqual([
+      ['a', 'b'],
+      ['a', 'b'],
+    ]);
+    expect(Date.now() - started).toBeLessThan(200);
+    expect(openPages.size).toBe(0);
+  });
+
+  it('opens one extra page at a time per held page', async () => {
+    pool(1);
+    const page = await browsers.acquirePage();
+    let open = 0;
+    let mostOpen = 0;
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        browsers.withChildPage(page, async () => {
+          mostOpen = Math.max(mostOpen, ++open);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          open--;
+        })
+      )
+    );
+
+    expect(mostOpen).toBe(1);
+    expect(openPages.size).toBe(1);
+  });
+
+  it('closes the extra page when its work fails', async () => {
+    pool(1);
+    const page = await browsers.acquirePage();
+
+    await expect(
+      browsers.withChildPage(page, async () => {
+        throw new Error('navigation failed');
+      })
+    ).rejects.toThrow('navigation failed');
+    expect(openPages.size).toBe(1);
+  });
+
+  it('only opens extra pages for pages it handed out', async () => {
+    pool(1);
+
+    await expect(
+      browsers.withChildPage({} as Page, async () => undefined)
+    ).rejects.toThrow('Extra pages need a page held from this pool');
+  });
+});
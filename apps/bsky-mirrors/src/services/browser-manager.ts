@@ -0,0 +1,251 @@
+// src/services/browser-manager.ts
+import type { Browser, Page } from 'puppeteer';
+import puppeteer from 'puppeteer-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import { BrowserOptions } from '../types';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'browser' });
+
+puppeteer.use(StealthPlugin());
+
+export const DEFAULT_BROWSER_OPTIONS: BrowserOptions = {
+  mode: 'attach',
+  endpoint: 'http://localhost:9222',
+  args: [],
+  maxPages: 4,
+  acquireTimeoutMs: 2 * 60 * 1000,
+  leaseTimeoutMs: 5 * 60 * 1000,
+};
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * The one browser every scraper shares. It either attaches to a running
+ * Chrome or launches a headless one, reconnects when the browser goes away,
+ * and hands out at most `maxPages` pages at a time. Shutting down only
+ * detaches from an attached browser, which may be shared with others.
+ */
+export class BrowserManager {
+  private browser?: Browser;
+  private connecting?: Promise<Browser>;
+  private leases = new Map<Page, NodeJS.Timeout>();
+  private waiters: Waiter[] = [];
+  // The last extra page opened for each held page, which the next one waits on
+  private childTurns = new Map<Page, Promise<void>>();
+  private pagesInUse = 0;
+  private closed = false;
+
+  /**
+   * `preparePage` runs on every new page before it's handed out, e.g. to
+   * serve its requests from recordings.
+   */
+  constructor(
+    private readonly options: BrowserOptions,
+    private readonly preparePage?: (page: Page) => Promise<void>
+  ) {}
+
+  /**
+   * Opens a page once the pool has room, waiting at most acquireTimeoutMs.
+   * Pass it to releasePage when done; a page still held after
+   * leaseTimeoutMs is closed under its holder, so a hung scrape can't starve
+   * the others.
+   */
+  async acquirePage(): Promise<Page> {
+    await this.reserve();
+    let page: Page | undefined;
+    try {
+      page = await (await this.connect()).newPage();
+      await this.preparePage?.(page);
+    } catch (error) {
+      await page?.close().catch(() => undefined);
+      this.unreserve();
+      throw error;
+    }
+
+    const leased = page;
+    const timer = setTimeout(() => {
+      log.warn(
+        `Closing a page held for over ${this.options.leaseTimeoutMs / 1000}s`
+      );
+      void this.releasePage(leased);
+    }, this.options.leaseTimeoutMs);
+    timer.unref();
+    this.leases.set(leased, timer);
+    return leased;
+  }
+
+  // Closes the page and frees its place in the pool; safe to call twice
+  async releasePage(page: Page): Promise<void> {
+    const timer = this.leases.get(page);
+    if (!timer) return;
+    clearTimeout(timer);
+    this.leases.delete(page);
+    this.unreserve();
+    // Already gone if the browser disconnected
+    await page.close().catch(() => undefined);
+  }
+
+  /**
+   * Runs `fn` on an extra page opened on behalf of `parent`, a page the
+   * caller holds, e.g. to download the media of the posts on it. The extra
+   * page shares the parent's place in the pool rather than waiting for a
+   * new one, which would never come while every place is taken by a scrape
+   * doing the same. Each held page gets one extra page at a time; the page
+   * is closed when `fn` settles.
+   */
+  async withChildPage<T>(
+    parent: Page,
+    fn: (page: Page) => Promise<T>
+  ): Promise<T> {
+    if (!this.leases.has(parent)) {
+      throw new Error('Extra pages need a page held from this pool');
+    }
+    const previous = this.childTurns.get(parent);
+    let done!: () => void;
+    const turn = new Promise<void>((resolve) => (done = resolve));
+    this.childTurns.set(parent, turn);
+    try {
+      await previous;
+      if (this.closed) throw new Error('The browser is shutting down');
+      const page = await (await this.connect()).newPage();
+      try {
+        await this.preparePage?.(page);
+        return await fn(page);
+      } finally {
+        await page.close().catch(() => undefined);
+      }
+    } finally {
+      done();
+      if (this.childTurns.get(parent) === turn) {
+        this.childTurns.delete(parent);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('The browser is shutting down'));
+    }
+    await this.connecting?.catch(() => undefined);
+    await Promise.all(
+      [...this.leases.keys()].map((page) => this.releasePage(page))
+    );
+
+    const browser = this.browser;
+    this.browser = undefined;
+    if (!browser?.connected) return;
+    if (this.options.mode === 'launch') {
+      await browser.close();
+    } else {
+      await browser.disconnect();
+    }
+  }
+
+  private async reserve(): Promise<void> {
+    if (this.closed) throw new Error('The browser is shutting down');
+    if (this.pagesInUse < this.options.maxPages) {
+      this.pagesInUse++;
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          reject(
+            new Error(
+              `No browser page free after ${
+                this.options.acquireTimeoutMs / 1000
+              }s (maxPages ${this.options.maxPages})`
+            )
+          );
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Hands the place to the longest waiting caller, if there is one
+  private unreserve(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve();
+    } else {
+      this.pagesInUse--;
+    }
+  }
+
+  private connect(): Promise<Browser> {
+    if (this.browser?.connected) return Promise.resolve(this.browser);
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<Browser> {
+    const { mode, endpoint, args } = this.options;
+    const browser =
+      mode === 'launch'
+        ? await puppeteer.launch({ headless: true, args })
+        : await puppeteer.connect({
+            ...(/^wss?:/.test(endpoint)
+              ? { browserWSEndpoint: endpoint }
+              : { browserURL: endpoint }),
+            defaultViewport: null,
+          });
+    if (this.closed) {
+      await (mode === 'launch' ? browser.close() : browser.disconnect());
+      throw new Error('The browser is shutting down');
+    }
+
+    log.info(
+      mode === 'launch'
+        ? 'Launched a headless browser'
+        : `Attached to the browser at ${endpoint}`
+    );
+    browser.once('disconnected', () => this.onDisconnected(browser));
+    this.browser = browser;
+    return browser;
+  }
+
+  private onDisconnected(browser: Browser): void {
+    if (this.browser !== browser || this.closed) return;
+    this.browser = undefined;
+    log.warn('Lost the browser, reconnecting');
+    void this.reconnect();
+  }
+
+  // Retries with a growing delay until connected; scrapes meanwhile fail
+  // fast on their own attempt to connect
+  private async reconnect(): Promise<void> {
+    let delayMs = RECONNECT_BASE_DELAY_MS;
+    while (!this.closed && !this.browser?.connected) {
+      try {
+        await this.connect();
+        log.info('Reconnected to the browser');
+        return;
+      } catch (error) {
+        if (this.closed) return;
+        log.warn(
+          `Failed to reconnect to the browser, retrying in ${delayMs / 1000}s`,
+          error
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs).unref());
+        delayMs = Math.min(delayMs * 2, RECONNECT_MAX_DELAY_MS);
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseConfigFile } from '../mirror-config';
+import { TweetData } from '../types';
+import { rejectingFilter } from './content-filter';
+
+const NOW = Date.parse('2026-10-16T12:00:00.000Z');
+
+function tweet(text: string, overrides: Partial<TweetData> = {}): TweetData {
+  return {
+    id: '1',
+    text,
+    timestamp: new Date(NOW - 60 * 1000).toISOString(),
+    images: [],
+    videos: [],
+    postedToBluesky: false,
+    sourceAccount: 'someone',
+    platform: 'twitter',
+    ...overrides,
+  };
+}
+
+describe('rejectingFilter', () => {
+  it('mirrors everything without filters', () => {
+    expect(rejectingFilter(tweet('anything'), undefined, NOW)).toBeUndefined();
+    expect(rejectingFilter(tweet('anything'), {}, NOW)).toBeUndefined();
+  });
+
+  it('rejects excluded keywords regardless of case', () => {
+    const filters = { excludeKeywords: ['GiveAway', 'promo'] };
+
+    expect(rejectingFilter(tweet('Huge GIVEAWAY today'), filters, NOW)).toBe(
+      'excludeKeywords: "GiveAway"'
+    );
+    expect(rejectingFilter(tweet('Promotional'), filters, NOW)).toBe(
+      'excludeKeywords: "promo"'
+    );
+    expect(rejectingFilter(tweet('News'), filters, NOW)).toBeUndefined();
+  });
+
+  it('rejects excluded patterns case-insensitively', () => {
+    const filters = { excludePatterns: ['\\bpromo(tion)?\\b'] };
+
+    expect(rejectingFilter(tweet('A PROMOTION!'), filters, NOW)).toBe(
+      'excludePatterns: /\\bpromo(tion)?\\b/'
+    );
+    expect(rejectingFilter(tweet('Promotional'), filters, NOW)).toBeUndefined();
+  });
+
+  it('needs one include keyword or pattern to match when any are set', () => {
+    const filters = {
+      includeKeywords: ['Election'],
+      includePatterns: ['^breaking:'],
+    };
+
+    expect(
+      rejectingFilter(tweet('election results'), filters, NOW)
+    ).toBeUndefined();
+    expect(
+      rejectingFilter(tweet('BREAKING: news'), filters, NOW)
+    ).toBeUndefined();
+    expect(rejectingFilter(tweet('Not breaking: news'), filters, NOW)).toBe(
+      'includeKeywords/includePatterns: no match'
+    );
+  });
+
+  it('lets exclusions win over inclusions', () => {
+    expect(
+      rejectingFilter(
+        tweet('Election giveaway'),
+        { includeKeywords: ['election'], excludeKeywords: ['giveaway'] },
+        NOW
+      )
+    ).toBe('excludeKeywords: "giveaway"');
+  });
+
+  it('skips replies to others but keeps thread continuations', () => {
+    const filters = { skipReplies: true };
+
+    expect(
+      rejectingFilter(tweet('@other yes', { kind: 'reply' }), filters, NOW)
+    ).toBe('skipReplies');
+    expect(
+      rejectingFilter(
+        tweet('2/ more', { kind: 'reply', inReplyToId: '0' }),
+        filters,
+        NOW
+      )
+    ).toBeUndefined();
+  });
+
+  it('skips posts without media, too short or too old', () => {
+    expect(
+      rejectingFilter(tweet('text'), { skipWithoutMedia: true }, NOW)
+    ).toBe('skipWithoutMedia');
+    expect(rejectingFilter(tweet(' 👍🏽👍🏽 '), { minLength: 3 }, NOW)).toBe(
+      'minLength: 3'
+    );
+    expect(rejectingFilter(tweet('old'), { maxAgeMs: 30 * 1000 }, NOW)).toBe(
+      'maxAge: 1 minutes'
+    );
+  });
+
+  it('throws on a pattern that is not a valid regex', () => {
+    expect(() =>
+      rejectingFilter(tweet('text'), { excludePatterns: ['(unclosed'] }, NOW)
+    ).toThrow(/Invalid regular expression/);
+  });
+});
+
+describe('filter config', () => {
+  it('reports invalid patterns when the config is loaded', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'filters-'));
+    const configPath = path.join(dir, 'mirrors.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        mirrors: [
+          {
+            source: 'someone',
+            bluesky: { identifier: 'someone.bsky.social', password: 'x' },
+            filters: { includePatterns: ['ok', '(unclosed'] },
+          },
+        ],
+      })
+    );
+
+    try {
+      expect(() => parseConfigFile(configPath)).toThrow(
+        /mirrors\[0\]\.filters\.includePatterns\[1\]: invalid regex/
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,71 @@
+// src/services/content-filter.ts
+import { ContentFilters, TweetData } from '../types';
+import { graphemeLength } from './text-splitter';
+
+/**
+ * Checks a scraped post against a mirror's filters. Resolves to a
+ * description of the first rule that rejects it, e.g.
+ * `excludeKeywords: "giveaway"`, or undefined if it should be mirrored.
+ */
+export function rejectingFilter(
+  tweet: TweetData,
+  filters: ContentFilters | undefined,
+  now = Date.now()
+): string | undefined {
+  if (!filters) return undefined;
+  const text = tweet.text.toLowerCase();
+
+  const excludedKeyword = filters.excludeKeywords?.find((keyword) =>
+    text.includes(keyword.toLowerCase())
+  );
+  if (excludedKeyword !== undefined) {
+    return `excludeKeywords: "${excludedKeyword}"`;
+  }
+  const excludedPattern = filters.excludePatterns?.find((pattern) =>
+    new RegExp(pattern, 'i').test(tweet.text)
+  );
+  if (excludedPattern !== undefined) {
+    return `excludePatterns: /${excludedPattern}/`;
+  }
+
+  const includeKeywords = filters.includeKeywords || [];
+  const includePatterns = filters.includePatterns || [];
+  if (
+    (includeKeywords.length > 0 || includePatterns.length > 0) &&
+    !includeKeywords.some((keyword) => text.includes(keyword.toLowerCase())) &&
+    !includePatterns.some((pattern) =>
+      new RegExp(pattern, 'i').test(tweet.text)
+    )
+  ) {
+    return 'includeKeywords/includePatterns: no match';
+  }
+
+  // Continuations of the account's own threads carry inReplyToId
+  if (filters.skipReplies && tweet.kind === 'reply' && !tweet.inReplyToId) {
+    return 'skipReplies';
+  }
+  if (
+    filters.skipWithoutMedia &&
+    !tweet.images?.length &&
+    !tweet.videos?.length
+  ) {
+    return 'skipWithoutMedia';
+  }
+  if (
+    filters.minLength !== undefined &&
+    graphemeLength(tweet.text.trim()) < filters.minLength
+  ) {
+    return `minLength: ${filters.minLength}`;
+  }
+
+  const postedAt = Date.parse(tweet.timestamp);
+  if (
+    filters.maxAgeMs !== undefined &&
+    !isNaN(postedAt) &&
+    now - postedAt > filters.maxAgeMs
+  ) {
+    return `maxAge: ${Math.round(filters.maxAgeMs / 60000)} minutes`;
+  }
+
+  return undefined;
+}
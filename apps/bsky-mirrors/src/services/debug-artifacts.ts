@@ -0,0 +1,81 @@
+// src/services/debug-artifacts.ts
+import fs from 'fs/promises';
+import path from 'path';
+import type { Page } from 'puppeteer';
+import { AccountPair } from '../types';
+import { currentDebugDir, logger } from './logger';
+
+const log = logger.child({ component: 'debug-artifacts' });
+
+// What a scraped page looked like, e.g. when its markup stopped matching
+export interface PageSnapshot {
+  url?: string;
+  screenshot?: Buffer;
+  html?: string;
+}
+
+export function debugDirFor(pair: AccountPair): string {
+  return path.join(pair.storageDir, 'debug');
+}
+
+/**
+ * Saves a screenshot and the HTML of a scraped page into the current
+ * mirror's debug directory. Does nothing unless debug artifacts are enabled,
+ * and never fails the scrape.
+ */
+export async function saveDebugArtifacts(
+  page: Page,
+  label: string
+): Promise<void> {
+  const dir = currentDebugDir();
+  if (!dir) return;
+
+  try {
+    const files = await writeSnapshot(await capturePage(page), dir, label);
+    log.debug(`Saved debug artifacts ${files.join(', ')}`);
+  } catch (error) {
+    log.warn(`Failed to save debug artifacts for ${label}`, error);
+  }
+}
+
+/**
+ * Captures whatever can still be read from a page; a page that crashed or
+ * was closed may give neither a screenshot nor its HTML.
+ */
+export async function capturePage(page: Page): Promise<PageSnapshot> {
+  const snapshot: PageSnapshot = {};
+  try {
+    snapshot.url = page.url();
+    snapshot.screenshot = Buffer.from(
+      await page.screenshot({ type: 'png', fullPage: true })
+    );
+    snapshot.html = await page.content();
+  } catch (error) {
+    log.debug('Could not capture the whole page', { error: error.message });
+  }
+  return snapshot;
+}
+
+// Writes <time>-<label>.png and .html, resolving to their paths
+export async function writeSnapshot(
+  snapshot: PageSnapshot,
+  dir: string,
+  label: string
+): Promise<string[]> {
+  await fs.mkdir(dir, { recursive: true });
+  const base = path.join(
+    dir,
+    `${new Date().toISOString().replace(/[:.]/g, '-')}-${label}`
+  );
+
+  const files: string[] = [];
+  if (snapshot.screenshot) {
+    await fs.writeFile(`${base}.png`, snapshot.screenshot);
+    files.push(`${base}.png`);
+  }
+  if (snapshot.html !== undefined) {
+    await fs.writeFile(`${base}.html`, snapshot.html);
+    files.push(`${base}.html`);
+  }
+  return files;
+}
@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountPair, TweetData } from '../types';
+import { BlueskyService } from './bluesky-service';
+import { DeletionSyncService } from './deletion-sync-service';
+import { SeenIndex } from './seen-index-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function tweet(
+  id: string,
+  daysAgo: number,
+  extra: Partial<TweetData> = {}
+): TweetData {
+  const ref = { uri: `at://did:plc:test/app.bsky.feed.post/${id}`, cid: id };
+  return {
+    id,
+    text: `post ${id}`,
+    timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+    images: [],
+    videos: [],
+    postedToBluesky: true,
+    sourceAccount: 'https://x.com/someone',
+    platform: 'twitter',
+    bluesky: {
+      posts: [ref],
+      root: ref,
+      postedAt: new Date().toISOString(),
+    },
+    ...extra,
+  };
+}
+
+describe('DeletionSyncService', () => {
+  let storageDir: string;
+  let pair: AccountPair;
+  let deletePosts: ReturnType<typeof vi.fn>;
+  let service: DeletionSyncService;
+
+  beforeEach(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'deletion-sync-'));
+    pair = {
+      twitter: 'https://x.com/someone',
+      platform: 'twitter',
+      bluesky: { identifier: 'someone.bsky.social', password: 'secret' },
+      storageDir,
+      deletionSync: { confirmationDelayMs: 0 },
+    };
+    deletePosts = vi.fn().mockResolvedValue(undefined);
+    service = new DeletionSyncService({
+      deletePosts,
+    } as unknown as BlueskyService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  async function seenIndexWith(tweets: TweetData[]): Promise<SeenIndex> {
+    const seenIndex = await SeenIndex.load(storageDir);
+    for (const mirrored of tweets) {
+      await seenIndex.record(mirrored, 'posted');
+    }
+    return seenIndex;
+  }
+
+  it('flags mirrored posts missing from the scraped window', async () => {
+    const seenIndex = await seenIndexWith([
+      tweet('1', 3),
+      tweet('2', 2),
+      tweet('3', 1),
+    ]);
+
+    await service.sync(pair, [tweet('3', 1), tweet('1', 3)], seenIndex);
+
+    expect(seenIndex.get('2')?.missingSince).toBeDefined();
+    expect(seenIndex.get('1')?.missingSince).toBeUndefined();
+    expect(seenIndex.get('3')?.missingSince).toBeUndefined();
+  });
+
+  it('deletes the mirror once the post stays missing', async () => {
+    const seenIndex = await seenIndexWith([tweet('1', 3), tweet('2', 2)]);
+    const scraped = [tweet('3', 1), tweet('1', 3)];
+
+    await service.sync(pair, scraped, seenIndex);
+    await service.sync(pair, scraped, seenIndex);
+
+    expect(deletePosts).toHaveBeenCalledOnce();
+    expect(seenIndex.get('2')?.outcome).toBe('deleted');
+  });
+
+  it('ignores an old pinned post above the timeline', async () => {
+    const seenIndex = await seenIndexWith([
+      tweet('pinned', 200),
+      tweet('older', 30),
+      tweet('2', 2),
+      tweet('1', 1),
+    ]);
+
+    await service.sync(
+      pair,
+      [
+        tweet('pinned', 200, { pinned: true }),
+        tweet('1', 1),
+        tweet('2', 2),
+        tweet('3', 3),
+      ],
+      seenIndex
+    );
+
+    expect(seenIndex.get('older')?.missingSince).toBeUndefined();
+  });
+
+  it('ignores pinned posts sorted below the timeline', async () => {
+    const seenIndex = await seenIndexWith([
+      tweet('older', 30),
+      tweet('2', 2),
+      tweet('1', 1),
+    ]);
+
+    await service.sync(
+      pair,
+      [
+        tweet('1', 1),
+        tweet('2', 2),
+        tweet('pinned-1', 100, { pinned: true }),
+        tweet('pinned-2', 200, { pinned: true }),
+      ],
+      seenIndex
+    );
+
+    expect(seenIndex.get('older')?.missingSince).toBeUndefined();
+  });
+
+  it('ignores the original timestamp of an old repost', async () => {
+    const seenIndex = await seenIndexWith([
+      tweet('older', 30),
+      tweet('2', 2),
+      tweet('1', 1),
+    ]);
+
+    await service.sync(
+      pair,
+      [
+        tweet('1', 1),
+        tweet('repost', 90, { kind: 'repost', originalAuthor: 'other' }),
+        tweet('2', 2),
+      ],
+      seenIndex
+    );
+
+    expect(seenIndex.get('older')?.missingSince).toBeUndefined();
+  });
+
+  it('ignores a pinned post and a repost together', async () => {
+    const seenIndex = await seenIndexWith([
+      tweet('older', 30),
+      tweet('3', 3),
+      tweet('2', 2),
+      tweet('1', 1),
+    ]);
+
+    await service.sync(
+      pair,
+      [
+        tweet('pinned', 120, { pinned: true }),
+        tweet('1', 1),
+        tweet('repost', 90, { kind: 'repost', originalAuthor: 'other' }),
+        tweet('3', 3),
+      ],
+      seenIndex
+    );
+
+    expect(seenIndex.get('older')?.missingSince).toBeUndefined();
+    expect(seenIndex.get('2')?.missingSince).toBeDefined();
+  });
+});
@@ -0,0 +1,119 @@
+// src/services/deletion-sync-service.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { AccountPair, SeenEntry, TweetData } from '../types';
+import { BlueskyService } from './bluesky-service';
+import { SeenIndex } from './seen-index-service';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'deletion-sync' });
+
+const AUDIT_LOG_FILE = 'deletions.log';
+
+/**
+ * Removes Bluesky copies of source posts that have been deleted at the
+ * source. A mirrored post counts as deleted once it has been missing from
+ * the scraped window for the mirror's confirmation delay.
+ */
+export class DeletionSyncService {
+  constructor(private blueskyService: BlueskyService) {}
+
+  async sync(
+    pair: AccountPair,
+    latestTweets: TweetData[],
+    seenIndex: SeenIndex
+  ): Promise<void> {
+    // An empty scrape means the scraper is broken, not that everything is gone
+    if (!pair.deletionSync || latestTweets.length === 0) return;
+
+    const windowStart = recentWindowStart(latestTweets);
+    const scrapedIds = new Set(latestTweets.map((tweet) => tweet.id));
+    const now = Date.now();
+
+    for (const entry of seenIndex.values()) {
+      if (entry.outcome !== 'posted' || !entry.bluesky) continue;
+
+      // Still there, or too old for the scrape to tell us either way
+      if (
+        scrapedIds.has(entry.id) ||
+        Date.parse(entry.timestamp) <= windowStart
+      ) {
+        if (entry.missingSince) {
+          await seenIndex.update(entry.id, { missingSince: undefined });
+        }
+        continue;
+      }
+
+      if (!entry.missingSince) {
+        log.info(`Mirrored post ${entry.id} is missing from ${pair.twitter}`);
+        await seenIndex.update(entry.id, {
+          missingSince: new Date(now).toISOString(),
+        });
+        continue;
+      }
+
+      if (
+        now - Date.parse(entry.missingSince) >=
+        pair.deletionSync.confirmationDelayMs
+      ) {
+        await this.deleteMirror(pair, entry, seenIndex);
+      }
+    }
+  }
+
+  private async deleteMirror(
+    pair: AccountPair,
+    entry: SeenEntry,
+    seenIndex: SeenIndex
+  ): Promise<void> {
+    const posts = entry.bluesky?.posts || [];
+    try {
+      await this.blueskyService.deletePosts(pair.twitter, posts);
+      await seenIndex.update(entry.id, { outcome: 'deleted' });
+      await this.audit(pair, entry, { event: 'deleted' });
+      log.info(`Deleted ${posts.length} Bluesky post(s) mirroring ${entry.id}`);
+    } catch (error) {
+      log.error(`Failed to delete mirror of ${entry.id}`, error);
+      await this.audit(pair, entry, {
+        event: 'delete-failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async audit(
+    pair: AccountPair,
+    entry: SeenEntry,
+    details: { event: string; error?: string }
+  ): Promise<void> {
+    const line = {
+      at: new Date().toISOString(),
+      ...details,
+      sourceAccount: pair.twitter,
+      sourceId: entry.id,
+      sourceTimestamp: entry.timestamp,
+      missingSince: entry.missingSince,
+      posts: entry.bluesky?.posts.map((post) => post.uri),
+    };
+    await fs.mkdir(pair.storageDir, { recursive: true });
+    await fs.appendFile(
+      path.join(pair.storageDir, AUDIT_LOG_FILE),
+      JSON.stringify(line) + '\n'
+    );
+  }
+}
+
+/**
+ * Oldest timestamp the scrape covers: that of the last post the account
+ * wrote itself, as scrapers list posts newest first. Reposts carry the
+ * reposted post's timestamp and pinned posts can be of any age, so either
+ * would stretch the window back and make every mirrored post since then
+ * look deleted.
+ */
+function recentWindowStart(tweets: TweetData[]): number {
+  const last = tweets
+    .filter((tweet) => tweet.kind !== 'repost' && !tweet.pinned)
+    .at(-1);
+  const time = last ? Date.parse(last.timestamp) : NaN;
+  return isNaN(time) ? Date.now() : time;
+}
@@ -0,0 +1,87 @@
+// src/services/dry-run-recorder.ts
+import fs from 'fs/promises';
+import { PostRef, TweetData } from '../types';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'dry-run' });
+
+export interface PlannedRecord {
+  uri: string;
+  cid: string;
+  record: any;
+}
+
+export interface PlannedPost {
+  sourceAccount: string;
+  sourceId: string;
+  sourceTimestamp: string;
+  records: PlannedRecord[];
+}
+
+/**
+ * Stands in for the Bluesky writes of a dry run. Blob uploads get placeholder
+ * refs and posts get placeholder URIs and CIDs, so the planned
+ * `app.bsky.feed.post` records keep the exact shape they would be created
+ * with, reply refs between thread chunks included.
+ */
+export class DryRunRecorder {
+  private plans: PlannedPost[] = [];
+  private blobCount = 0;
+  private postCount = 0;
+
+  /** Start collecting the records planned for a source post. */
+  begin(tweet: TweetData, sourceAccount: string): void {
+    this.plans.push({
+      sourceAccount,
+      sourceId: tweet.id,
+      sourceTimestamp: tweet.timestamp,
+      records: [],
+    });
+  }
+
+  /** A blob ref in its JSON form, for media that would have been uploaded. */
+  placeholderBlob(mimeType: string, size: number): any {
+    return {
+      $type: 'blob',
+      ref: { $link: `dry-run-blob-${++this.blobCount}` },
+      mimeType,
+      size,
+    };
+  }
+
+  recordPost(record: any): PostRef {
+    const current = this.plans[this.plans.length - 1];
+    if (!current) {
+      throw new Error('Dry run post recorded outside of a planned source post');
+    }
+
+    const n = ++this.postCount;
+    const ref = {
+      uri: `at://dry-run/app.bsky.feed.post/${n}`,
+      cid: `dry-run-cid-${n}`,
+    };
+    current.records.push({ ...ref, record });
+    return ref;
+  }
+
+  get planned(): PlannedPost[] {
+    return this.plans;
+  }
+
+  /** Write the planned posts as JSON to a file, or to stdout without one. */
+  async write(outputPath?: string): Promise<void> {
+    const json = JSON.stringify(this.plans, null, 2);
+    if (outputPath) {
+      await fs.writeFile(outputPath, json + '\n');
+      log.info(`Wrote ${this.plans.length} planned post(s) to ${outputPath}`);
+    } else {
+      // Resolves once written, as the CLI exits right after and a piped
+      // stdout would otherwise lose the end of the records
+      await new Promise<void>((resolve, reject) =>
+        process.stdout.write(json + '\n', (error) =>
+          error ? reject(error) : resolve()
+        )
+      );
+    }
+  }
+}
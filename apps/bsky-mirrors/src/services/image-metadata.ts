@@ -0,0 +1,118 @@
+// src/services/image-metadata.ts
+
+export interface ImageInfo {
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Identifies an image from its leading bytes and reads its pixel size from
+ * the header. Fields are left undefined for formats we don't recognise.
+ */
+export function readImageInfo(bytes: Uint8Array): ImageInfo {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+
+  try {
+    // PNG: signature, then IHDR with big-endian width and height
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') {
+      return {
+        mimeType: 'image/png',
+        width: view.getUint32(16),
+        height: view.getUint32(20),
+      };
+    }
+
+    // GIF: little-endian logical screen size
+    if (ascii(0, 3) === 'GIF') {
+      return {
+        mimeType: 'image/gif',
+        width: view.getUint16(6, true),
+        height: view.getUint16(8, true),
+      };
+    }
+
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+      return { mimeType: 'image/webp', ...readWebpSize(bytes, view) };
+    }
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return { mimeType: 'image/jpeg', ...readJpegSize(bytes, view) };
+    }
+
+    // ISO-BMFF based formats (AVIF/HEIC) carry their brand in the ftyp box
+    if (ascii(4, 8) === 'ftyp') {
+      const brand = ascii(8, 12);
+      if (brand === 'avif' || brand === 'avis') {
+        return { mimeType: 'image/avif' };
+      }
+      if (brand.startsWith('hei') || brand.startsWith('mif1')) {
+        return { mimeType: 'image/heic' };
+      }
+    }
+  } catch (error) {
+    // Truncated header, fall through
+  }
+
+  return {};
+}
+
+function readJpegSize(bytes: Uint8Array, view: DataView) {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    // Standalone markers without a length field
+    if (
+      marker === 0xd8 ||
+      marker === 0x01 ||
+      (marker >= 0xd0 && marker <= 0xd7)
+    ) {
+      offset += 2;
+      continue;
+    }
+    // SOF0-SOF15, excluding DHT (c4), JPG (c8) and DAC (cc)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+      };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return {};
+}
+
+function readWebpSize(bytes: Uint8Array, view: DataView) {
+  const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+  if (chunk === 'VP8 ') {
+    return {
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff,
+    };
+  }
+  if (chunk === 'VP8L') {
+    const bits = view.getUint32(21, true);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+  if (chunk === 'VP8X') {
+    const read24 = (o: number) =>
+      bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16);
+    return { width: read24(24) + 1, height: read24(27) + 1 };
+  }
+  return {};
+}
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenGraphFetcher, parseLinkMetadata } from './link-preview';
+
+const PAGE = 'https://example.com/articles/1';
+
+describe('parseLinkMetadata', () => {
+  it('prefers OpenGraph tags over Twitter card tags', () => {
+    const html = `<head>
+      <meta name="twitter:title" content="Card title">
+      <meta property="og:title" content="OG title">
+      <meta name="twitter:description" content="Card description">
+      <meta property="og:image" content="https://cdn.example.com/og.png">
+      <meta name="twitter:image" content="https://cdn.example.com/card.png">
+      <meta property="og:url" content="https://example.com/canonical">
+    </head>`;
+
+    expect(parseLinkMetadata(html, PAGE)).toEqual({
+      url: 'https://example.com/canonical',
+      title: 'OG title',
+      description: 'Card description',
+      imageUrl: 'https://cdn.example.com/og.png',
+    });
+  });
+
+  it('falls back to Twitter card tags, then the title and description', () => {
+    expect(
+      parseLinkMetadata(
+        `<meta name='twitter:title' content='Only a card'>`,
+        PAGE
+      )?.title
+    ).toBe('Only a card');
+
+    expect(
+      parseLinkMetadata(
+        `<title>Plain &amp; simple</title>
+         <meta name="description" content="About &quot;this&quot;">`,
+        PAGE
+      )
+    ).toEqual({
+      url: PAGE,
+      title: 'Plain & simple',
+      description: 'About "this"',
+      imageUrl: undefined,
+    });
+  });
+
+  it('resolves relative image URLs against the page', () => {
+    const html = `<meta property="og:title" content="t">
+      <meta property="og:image" content="/images/cover.jpg">`;
+
+    expect(parseLinkMetadata(html, PAGE)?.imageUrl).toBe(
+      'https://example.com/images/cover.jpg'
+    );
+    expect(
+      parseLinkMetadata(html.replace('/images/cover.jpg', '../thumb.png'), PAGE)
+        ?.imageUrl
+    ).toBe('https://example.com/thumb.png');
+  });
+
+  it('returns nothing for a page without a title', () => {
+    expect(
+      parseLinkMetadata('<meta name="description" content="x">', PAGE)
+    ).toBeUndefined();
+  });
+});
+
+describe('OpenGraphFetcher', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function serve(body: BodyInit, contentType = 'text/html') {
+    const fetch = vi.fn(
+      async () =>
+        new Response(body, { headers: { 'content-type': contentType } })
+    );
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('decodes the page in the charset the server sends', async () => {
+    serve(
+      Buffer.from('<title>Caf\xe9 cr\xe8me</title>', 'latin1'),
+      'text/html; charset=ISO-8859-1'
+    );
+
+    expect((await new OpenGraphFetcher().fetchMetadata(PAGE))?.title).toBe(
+      'Café crème'
+    );
+  });
+
+  it('decodes the page in the charset it declares, else as UTF-8', async () => {
+    serve(
+      Buffer.concat([
+        Buffer.from('<meta charset="iso-8859-2"><title>'),
+        Buffer.from([0xa3, 0xf3, 0x64, 0xbc]),
+        Buffer.from('</title>'),
+      ])
+    );
+    expect((await new OpenGraphFetcher().fetchMetadata(PAGE))?.title).toBe(
+      'Łódź'
+    );
+
+    serve('<title>Café ☕</title>');
+    expect((await new OpenGraphFetcher().fetchMetadata(PAGE))?.title).toBe(
+      'Café ☕'
+    );
+  });
+
+  it('only reads the first 512 KiB of a page', async () => {
+    const padding = `<!-- ${'x'.repeat(600 * 1024)} -->`;
+
+    serve(`<title>Early</title>${padding}`);
+    expect((await new OpenGraphFetcher().fetchMetadata(PAGE))?.title).toBe(
+      'Early'
+    );
+
+    serve(`${padding}<title>Late</title>`);
+    expect(await new OpenGraphFetcher().fetchMetadata(PAGE)).toBeUndefined();
+  });
+
+  it('skips links that are not HTML and fails on error responses', async () => {
+    serve('{}', 'application/json');
+    expect(await new OpenGraphFetcher().fetchMetadata(PAGE)).toBeUndefined();
+
+    vi.stubGlobal(
+      'fetch',
+      async () => new Response('gone', { status: 404, statusText: 'Not Found' })
+    );
+    await expect(new OpenGraphFetcher().fetchMetadata(PAGE)).rejects.toThrow(
+      'Failed to fetch https://example.com/articles/1: Not Found (404)'
+    );
+  });
+});
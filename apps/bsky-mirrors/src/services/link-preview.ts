@@ -0,0 +1,163 @@
+// src/services/link-preview.ts
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+// Metadata lives in <head>, no need to download whole articles
+const MAX_HTML_BYTES = 512 * 1024;
+
+const FETCH_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export interface LinkMetadata {
+  url: string;
+  title: string;
+  description: string;
+  imageUrl?: string;
+}
+
+/**
+ * Looks up preview metadata for a link. Resolves to undefined when the page
+ * has nothing worth showing. Swap in a stub to keep tests off the network.
+ */
+export interface LinkMetadataFetcher {
+  fetchMetadata(url: string): Promise<LinkMetadata | undefined>;
+}
+
+/**
+ * Reads OpenGraph and Twitter card tags from a page, falling back to its
+ * <title> and meta description.
+ */
+export class OpenGraphFetcher implements LinkMetadataFetcher {
+  async fetchMetadata(url: string): Promise<LinkMetadata | undefined> {
+    const response = await fetch(url, {
+      headers: FETCH_HEADERS,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${url}: ${response.statusText} (${response.status})`
+      );
+    }
+    if (!response.headers.get('content-type')?.includes('html')) {
+      return undefined;
+    }
+
+    const html = decodeHtml(
+      await readLimited(response, MAX_HTML_BYTES),
+      response.headers.get('content-type')
+    );
+    return parseLinkMetadata(html, response.url || url);
+  }
+}
+
+export function parseLinkMetadata(
+  html: string,
+  pageUrl: string
+): LinkMetadata | undefined {
+  const meta = new Map<string, string>();
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const key = attribute(tag, 'property') || attribute(tag, 'name');
+    const content = attribute(tag, 'content');
+    // The first occurrence wins, as it does for most card renderers
+    if (key && content && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), decodeEntities(content).trim());
+    }
+  }
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+
+  const title =
+    meta.get('og:title') ||
+    meta.get('twitter:title') ||
+    (titleTag && decodeEntities(titleTag).trim());
+  if (!title) return undefined;
+
+  const description =
+    meta.get('og:description') ||
+    meta.get('twitter:description') ||
+    meta.get('description') ||
+    '';
+  const image =
+    meta.get('og:image:secure_url') ||
+    meta.get('og:image') ||
+    meta.get('og:image:url') ||
+    meta.get('twitter:image') ||
+    meta.get('twitter:image:src');
+
+  return {
+    url: meta.get('og:url') || pageUrl,
+    title,
+    description,
+    imageUrl: image ? absoluteUrl(image, pageUrl) : undefined,
+  };
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i')
+  );
+  return match ? match[2] ?? match[3] ?? match[4] : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function absoluteUrl(url: string, base: string): string | undefined {
+  try {
+    return new URL(url, base).toString();
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Uses the charset the server sends, else one declared near the top of the
+// page, else UTF-8
+function decodeHtml(bytes: Buffer, contentType: string | null): string {
+  const charset =
+    contentType?.match(/charset=["']?([\w-]+)/i)?.[1] ??
+    bytes
+      .subarray(0, 1024)
+      .toString('latin1')
+      .match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(bytes);
+  } catch (error) {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+async function readLimited(
+  response: Response,
+  maxBytes: number
+): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.from(await response.arrayBuffer()).subarray(0, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
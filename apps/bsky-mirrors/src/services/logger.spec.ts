@@ -0,0 +1,47 @@
+import { PassThrough } from 'stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureLogging, logger, setLogDestination } from './logger';
+
+describe('logger', () => {
+  afterEach(() => {
+    setLogDestination(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('writes info to stdout and errors to stderr by default', () => {
+    configureLogging({ level: 'info', format: 'text' });
+    const stdout = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const stderr = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+
+    logger.info('started');
+    logger.error('failed');
+
+    expect(stdout).toHaveBeenCalledOnce();
+    expect(String(stdout.mock.calls[0][0])).toMatch(/INFO  started\n$/);
+    expect(stderr).toHaveBeenCalledOnce();
+    expect(String(stderr.mock.calls[0][0])).toMatch(/ERROR failed\n$/);
+  });
+
+  it('writes every line to the destination when one is set', () => {
+    configureLogging({ level: 'debug', format: 'json' });
+    const stdout = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const destination = new PassThrough();
+    setLogDestination(destination);
+
+    logger.debug('checking', { mirror: 'someone' });
+    logger.warn('slow');
+
+    expect(stdout).not.toHaveBeenCalled();
+    const lines = String(destination.read()).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toMatchObject([
+      { level: 'debug', msg: 'checking', mirror: 'someone' },
+      { level: 'warn', msg: 'slow' },
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+// src/services/logger.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { LoggingOptions, LogLevel } from '../types';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS = ['text', 'json'];
+
+export type LogFields = Record<string, unknown>;
+
+interface LogScope {
+  fields: LogFields;
+  debugDir?: string;
+}
+
+const scopes = new AsyncLocalStorage<LogScope>();
+
+let configured: Partial<LoggingOptions> = {};
+
+let destination: NodeJS.WritableStream | undefined;
+
+function parseLevel(level?: string): LogLevel | undefined {
+  return LOG_LEVELS.find((known) => known === level?.toLowerCase());
+}
+
+/**
+ * Changes logging for the whole process, e.g. from the config file or the
+ * command line. Defaults come from LOG_LEVEL, LOG_FORMAT and
+ * DEBUG_ARTIFACTS.
+ */
+export function configureLogging(changes: Partial<LoggingOptions>): void {
+  configured = { ...configured, ...changes };
+}
+
+/**
+ * Sends every log line to `stream`, e.g. stderr while stdout carries output
+ * meant for other programs. Without one, warnings and errors go to stderr and
+ * everything else to stdout.
+ */
+export function setLogDestination(stream?: NodeJS.WritableStream): void {
+  destination = stream;
+}
+
+// Read on every use, the environment may be loaded after this module
+export function loggingOptions(): LoggingOptions {
+  return {
+    level: parseLevel(process.env.LOG_LEVEL) ?? 'info',
+    format: process.env.LOG_FORMAT === 'json' ? 'json' : 'text',
+    debugArtifacts: process.env.DEBUG_ARTIFACTS === 'true',
+    ...configured,
+  };
+}
+
+/**
+ * Runs `fn` with fields, such as the mirror and check cycle, added to every
+ * line logged while it runs, including from services it calls. `debugDir`
+ * is where debug artifacts from that work are written.
+ */
+export function withLogContext<T>(
+  fields: LogFields,
+  fn: () => T,
+  debugDir?: string
+): T {
+  const parent = scopes.getStore();
+  return scopes.run(
+    {
+      fields: { ...parent?.fields, ...fields },
+      debugDir: debugDir ?? parent?.debugDir,
+    },
+    fn
+  );
+}
+
+// Debug directory of the current context, if debug artifacts are enabled
+export function currentDebugDir(): string | undefined {
+  return loggingOptions().debugArtifacts
+    ? scopes.getStore()?.debugDir
+    : undefined;
+}
+
+export class Logger {
+  constructor(private readonly fields: LogFields = {}) {}
+
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return (
+      LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(loggingOptions().level)
+    );
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, undefined, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, undefined, fields);
+  }
+
+  warn(message: string, error?: unknown, fields?: LogFields): void {
+    this.write('warn', message, error, fields);
+  }
+
+  error(message: string, error?: unknown, fields?: LogFields): void {
+    this.write('error', message, error, fields);
+  }
+
+  private write(
+    level: LogLevel,
+    message: string,
+    error: unknown,
+    fields?: LogFields
+  ): void {
+    if (!this.isEnabled(level)) return;
+
+    const context = {
+      ...this.fields,
+      ...scopes.getStore()?.fields,
+      ...fields,
+    };
+    const line =
+      loggingOptions().format === 'json'
+        ? jsonLine(level, message, context, error)
+        : textLine(level, message, context, error);
+    const stream =
+      destination ??
+      (level === 'warn' || level === 'error' ? process.stderr : process.stdout);
+    stream.write(line + '\n');
+  }
+}
+
+export const logger = new Logger();
+
+function jsonLine(
+  level: LogLevel,
+  message: string,
+  context: LogFields,
+  error: unknown
+): string {
+  return JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...context,
+    ...(error !== undefined && { error: serializeError(error) }),
+  });
+}
+
+function textLine(
+  level: LogLevel,
+  message: string,
+  context: LogFields,
+  error: unknown
+): string {
+  const { mirror, cycle, ...rest } = context;
+  const scope =
+    mirror !== undefined
+      ? `[${mirror}${cycle !== undefined ? ` #${cycle}` : ''}] `
+      : '';
+  const extra = Object.entries(rest)
+    .filter(([key]) => key !== 'component')
+    .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+    .join('');
+  const line = `${new Date().toISOString()} ${level
+    .toUpperCase()
+    .padEnd(5)} ${scope}${message}${extra}`;
+  if (error === undefined) return line;
+  return `${line}\n${
+    error instanceof Error ? error.stack || error.message : formatValue(error)
+  }`;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return /\s/.test(value) ? JSON.stringify(value) : value;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (error) {
+    return String(value);
+  }
+}
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  const { status, error: code } = error as any;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(status !== undefined && { status }),
+    ...(code !== undefined && { code }),
+    stack: error.stack,
+  };
+}
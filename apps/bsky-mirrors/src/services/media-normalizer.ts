@@ -0,0 +1,103 @@
+// src/services/media-normalizer.ts
+import sharp from 'sharp';
+import { readImageInfo } from './image-metadata';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'media' });
+
+// app.bsky.embed.images and external thumbs both cap blobs at 1MB
+export const MAX_IMAGE_BYTES = 1000000;
+
+// Formats every Bluesky client can display; anything else is re-encoded
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+const MAX_DIMENSION = 2000;
+const MIN_DIMENSION = 320;
+const START_QUALITY = 85;
+const MIN_QUALITY = 50;
+
+export interface NormalizedImage {
+  bytes: Uint8Array;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Makes fetched image bytes safe to upload as a Bluesky blob: detects the
+ * real format from its magic bytes, converts formats Bluesky can't display,
+ * and downscales/recompresses until it fits under the blob size limit.
+ */
+export async function normalizeImage(
+  bytes: Uint8Array,
+  maxBytes = MAX_IMAGE_BYTES
+): Promise<NormalizedImage> {
+  const info = readImageInfo(bytes);
+
+  // Already displayable and small enough, upload as-is
+  if (
+    info.mimeType &&
+    SUPPORTED_IMAGE_TYPES.includes(info.mimeType) &&
+    bytes.length <= maxBytes
+  ) {
+    return { bytes, mimeType: info.mimeType, ...sizeOf(info) };
+  }
+
+  const metadata = await sharp(bytes).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error(`Unrecognised image format (${metadata.format})`);
+  }
+
+  // Anything converted or shrunk ends up as JPEG, flattened onto white
+  let dimension = Math.min(
+    MAX_DIMENSION,
+    Math.max(metadata.width, metadata.height)
+  );
+  let quality = START_QUALITY;
+
+  while (true) {
+    const output = await sharp(bytes, { animated: false })
+      .rotate()
+      .resize({
+        width: dimension,
+        height: dimension,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    if (output.data.length <= maxBytes) {
+      log.debug(
+        `Normalized ${info.mimeType || metadata.format} image ` +
+          `(${bytes.length} bytes) to ${output.info.width}x${output.info.height} ` +
+          `JPEG q${quality} (${output.data.length} bytes)`
+      );
+      return {
+        bytes: new Uint8Array(output.data),
+        mimeType: 'image/jpeg',
+        width: output.info.width,
+        height: output.info.height,
+      };
+    }
+
+    // Trade quality first, then resolution
+    if (quality > MIN_QUALITY) {
+      quality -= 10;
+    } else if (dimension > MIN_DIMENSION) {
+      dimension = Math.max(MIN_DIMENSION, Math.floor(dimension * 0.75));
+      quality = START_QUALITY;
+    } else {
+      throw new Error(
+        `Could not shrink image below ${maxBytes} bytes (${output.data.length})`
+      );
+    }
+  }
+}
+
+function sizeOf(info: { width?: number; height?: number }) {
+  return info.width && info.height
+    ? { width: info.width, height: info.height }
+    : {};
+}
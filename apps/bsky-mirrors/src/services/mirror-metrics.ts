@@ -0,0 +1,199 @@
+// src/services/mirror-metrics.ts
+import { FailureStage } from '../types';
+
+const FAILURE_STAGES: FailureStage[] = ['scrape', 'dedupe', 'upload', 'post'];
+
+// Source-to-Bluesky latency buckets, from a minute to a day
+const LATENCY_BUCKETS_SECONDS = [
+  60,
+  300,
+  900,
+  1800,
+  3600,
+  3 * 3600,
+  6 * 3600,
+  12 * 3600,
+  24 * 3600,
+];
+
+interface MirrorStats {
+  lastSuccessfulScrapeMs?: number;
+  scraped: number;
+  new: number;
+  mirrored: number;
+  failures: Record<FailureStage, number>;
+  latencyBuckets: number[];
+  latencyCount: number;
+  latencySumSeconds: number;
+}
+
+/**
+ * The metrics of one mirror, handed to the code that scrapes and posts for
+ * it so they don't need to know the mirror's name.
+ */
+export interface MirrorMetricsScope {
+  scraped(total: number, newPosts: number): void;
+  mirrored(sourceTimestamp: string): void;
+  failure(stage: FailureStage): void;
+}
+
+/**
+ * In-memory counters for every mirror, rendered in the Prometheus text
+ * exposition format. Counters reset when the agent restarts, which
+ * Prometheus' rate() handles.
+ */
+export class MirrorMetrics {
+  private readonly mirrors = new Map<string, MirrorStats>();
+  readonly startedAt = Date.now();
+
+  forMirror(mirror: string): MirrorMetricsScope {
+    return {
+      scraped: (total, newPosts) => {
+        const stats = this.statsFor(mirror);
+        stats.lastSuccessfulScrapeMs = Date.now();
+        stats.scraped += total;
+        stats.new += newPosts;
+      },
+      mirrored: (sourceTimestamp) => {
+        const stats = this.statsFor(mirror);
+        stats.mirrored++;
+        const postedAt = Date.parse(sourceTimestamp);
+        if (!isNaN(postedAt)) {
+          this.observeLatency(stats, (Date.now() - postedAt) / 1000);
+        }
+      },
+      failure: (stage) => {
+        this.statsFor(mirror).failures[stage]++;
+      },
+    };
+  }
+
+  // Most recent successful scrape of any mirror
+  lastSuccessfulScrapeMs(): number | undefined {
+    const times = [...this.mirrors.values()]
+      .map((stats) => stats.lastSuccessfulScrapeMs)
+      .filter((time): time is number => time !== undefined);
+    return times.length > 0 ? Math.max(...times) : undefined;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    const metric = (
+      name: string,
+      type: string,
+      help: string,
+      samples: [string, number][]
+    ) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) {
+        lines.push(`${name}${labels} ${value}`);
+      }
+    };
+    const entries = [...this.mirrors.entries()];
+    const perMirror = (value: (stats: MirrorStats) => number | undefined) =>
+      entries
+        .filter(([, stats]) => value(stats) !== undefined)
+        .map(([mirror, stats]): [string, number] => [
+          labels({ mirror }),
+          value(stats)!,
+        ]);
+
+    metric(
+      'bsky_mirror_last_successful_scrape_timestamp_seconds',
+      'gauge',
+      'Unix time of the last successful scrape of the mirror source.',
+      perMirror((stats) =>
+        stats.lastSuccessfulScrapeMs === undefined
+          ? undefined
+          : stats.lastSuccessfulScrapeMs / 1000
+      )
+    );
+    metric(
+      'bsky_mirror_posts_scraped_total',
+      'counter',
+      'Source posts seen by scrapes, new or not.',
+      perMirror((stats) => stats.scraped)
+    );
+    metric(
+      'bsky_mirror_posts_new_total',
+      'counter',
+      'Source posts scraped for the first time.',
+      perMirror((stats) => stats.new)
+    );
+    metric(
+      'bsky_mirror_posts_mirrored_total',
+      'counter',
+      'Source posts posted to Bluesky.',
+      perMirror((stats) => stats.mirrored)
+    );
+    metric(
+      'bsky_mirror_failures_total',
+      'counter',
+      'Failures by stage: scrape, dedupe, upload or post.',
+      entries.flatMap(([mirror, stats]) =>
+        FAILURE_STAGES.map((stage): [string, number] => [
+          labels({ mirror, stage }),
+          stats.failures[stage],
+        ])
+      )
+    );
+
+    const latency = 'bsky_mirror_latency_seconds';
+    lines.push(
+      `# HELP ${latency} Time from the source post to its Bluesky copy.`,
+      `# TYPE ${latency} histogram`
+    );
+    for (const [mirror, stats] of entries) {
+      LATENCY_BUCKETS_SECONDS.forEach((le, i) =>
+        lines.push(
+          `${latency}_bucket${labels({ mirror, le: String(le) })} ${
+            stats.latencyBuckets[i]
+          }`
+        )
+      );
+      lines.push(
+        `${latency}_bucket${labels({ mirror, le: '+Inf' })} ${
+          stats.latencyCount
+        }`,
+        `${latency}_sum${labels({ mirror })} ${stats.latencySumSeconds}`,
+        `${latency}_count${labels({ mirror })} ${stats.latencyCount}`
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private statsFor(mirror: string): MirrorStats {
+    let stats = this.mirrors.get(mirror);
+    if (!stats) {
+      stats = {
+        scraped: 0,
+        new: 0,
+        mirrored: 0,
+        failures: { scrape: 0, dedupe: 0, upload: 0, post: 0 },
+        latencyBuckets: LATENCY_BUCKETS_SECONDS.map(() => 0),
+        latencyCount: 0,
+        latencySumSeconds: 0,
+      };
+      this.mirrors.set(mirror, stats);
+    }
+    return stats;
+  }
+
+  private observeLatency(stats: MirrorStats, seconds: number): void {
+    // Buckets are cumulative, a value counts in every bucket it fits under
+    LATENCY_BUCKETS_SECONDS.forEach((le, i) => {
+      if (seconds <= le) stats.latencyBuckets[i]++;
+    });
+    stats.latencyCount++;
+    stats.latencySumSeconds += seconds;
+  }
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
@@ -0,0 +1,105 @@
+// src/services/mirror-scheduler.ts
+import { AccountPair, SchedulerOptions } from '../types';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'scheduler' });
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  jitter: 0.2,
+  minFactor: 0.5,
+  maxFactor: 4,
+  backoffFactor: 1.5,
+};
+
+// Runs one check of a mirror, resolving to the number of new posts found
+export type MirrorCheck = (pair: AccountPair) => Promise<number>;
+
+interface MirrorState {
+  pair: AccountPair;
+  baseIntervalMs: number;
+  factor: number;
+  running: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Schedules each mirror on its own timer. Intervals are randomised by
+ * `jitter` so checks don't land on a fixed cadence, shrink towards
+ * `minFactor` of the base interval after a check finds new posts and grow
+ * towards `maxFactor` while an account stays quiet. The next check of a
+ * mirror is only scheduled once its previous one has finished, so checks of
+ * the same mirror never overlap.
+ */
+export class MirrorScheduler {
+  private states: MirrorState[] = [];
+  private stopped = false;
+
+  constructor(
+    private readonly check: MirrorCheck,
+    private readonly options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS
+  ) {}
+
+  start(pairs: AccountPair[], defaultIntervalMs: number): void {
+    this.stopped = false;
+    const stagger = defaultIntervalMs / Math.max(pairs.length, 1);
+
+    pairs.forEach((pair, i) => {
+      const state: MirrorState = {
+        pair,
+        baseIntervalMs: pair.checkIntervalMs ?? defaultIntervalMs,
+        factor: 1,
+        running: false,
+      };
+      this.states.push(state);
+      // Spread first checks out rather than hitting every site at once
+      this.schedule(state, i === 0 ? 0 : this.withJitter(i * stagger));
+    });
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const state of this.states) {
+      clearTimeout(state.timer);
+    }
+    this.states = [];
+  }
+
+  private schedule(state: MirrorState, delayMs: number): void {
+    if (this.stopped) return;
+    state.timer = setTimeout(() => this.run(state), delayMs);
+  }
+
+  private async run(state: MirrorState): Promise<void> {
+    if (state.running) return;
+    state.running = true;
+
+    let newPosts = 0;
+    try {
+      newPosts = await this.check(state.pair);
+    } catch (error) {
+      log.error(`Scheduled check of ${state.pair.twitter} failed`, error);
+    } finally {
+      state.running = false;
+    }
+
+    state.factor =
+      newPosts > 0
+        ? this.options.minFactor
+        : Math.min(
+            this.options.maxFactor,
+            state.factor * this.options.backoffFactor
+          );
+
+    const delayMs = this.withJitter(state.baseIntervalMs * state.factor);
+    log.info(
+      `Next check of ${state.pair.twitter} in ${Math.round(delayMs / 1000)}s ` +
+        `(${newPosts} new, x${state.factor.toFixed(2)} base interval)`
+    );
+    this.schedule(state, delayMs);
+  }
+
+  private withJitter(intervalMs: number): number {
+    const spread = intervalMs * this.options.jitter;
+    return Math.max(0, intervalMs - spread + Math.random() * 2 * spread);
+  }
+}
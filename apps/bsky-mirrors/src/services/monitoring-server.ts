@@ -0,0 +1,104 @@
+// src/services/monitoring-server.ts
+import http from 'http';
+import { AgentConfig, MonitoringOptions } from '../types';
+import { DEFAULT_SCHEDULER_OPTIONS } from './mirror-scheduler';
+import { MirrorMetrics } from './mirror-metrics';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'monitoring' });
+
+/**
+ * Default for how long the agent stays healthy without a successful scrape:
+ * twice the longest a quiet mirror can go between checks, since the
+ * scheduler backs intervals off to maxFactor (plus jitter).
+ */
+export function defaultUnhealthyAfterMs(config: AgentConfig): number {
+  const { maxFactor, jitter } = {
+    ...DEFAULT_SCHEDULER_OPTIONS,
+    ...config.scheduler,
+  };
+  const longestIntervalMs = Math.max(
+    config.CHECK_INTERVAL_MS,
+    ...config.accountPairs.map((pair) => pair.checkIntervalMs ?? 0)
+  );
+  return 2 * longestIntervalMs * maxFactor * (1 + jitter);
+}
+
+/**
+ * Serves `/healthz` and Prometheus `/metrics` for unattended runs. The agent
+ * is unhealthy once no mirror has scraped successfully for
+ * `unhealthyAfterMs`, counted from startup until the first scrape.
+ */
+export class MonitoringServer {
+  private server?: http.Server;
+
+  constructor(
+    private readonly metrics: MirrorMetrics,
+    private readonly options: MonitoringOptions,
+    private readonly unhealthyAfterMs: number
+  ) {}
+
+  async start(): Promise<void> {
+    const server = http.createServer((request, response) =>
+      this.handle(request, response)
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    log.info(
+      `Monitoring server listening on ${this.options.host ?? '*'}:${
+        this.options.port
+      } (/healthz, /metrics)`
+    );
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): void {
+    const path = (request.url ?? '/').split('?')[0];
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    } else if (path === '/healthz') {
+      const health = this.health();
+      response
+        .writeHead(health.healthy ? 200 : 503, {
+          'Content-Type': 'application/json',
+        })
+        .end(JSON.stringify(health) + '\n');
+    } else if (path === '/metrics') {
+      response
+        .writeHead(200, {
+          'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        })
+        .end(this.metrics.render());
+    } else {
+      response.writeHead(404).end();
+    }
+  }
+
+  private health() {
+    const lastScrapeMs = this.metrics.lastSuccessfulScrapeMs();
+    const sinceMs = Date.now() - (lastScrapeMs ?? this.metrics.startedAt);
+    return {
+      healthy: sinceMs <= this.unhealthyAfterMs,
+      lastSuccessfulScrape:
+        lastScrapeMs === undefined
+          ? null
+          : new Date(lastScrapeMs).toISOString(),
+      unhealthyAfterSeconds: Math.round(this.unhealthyAfterMs / 1000),
+    };
+  }
+}
@@ -1,48 +1,35 @@
-import puppeteer from 'puppeteer-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import type { Page } from 'puppeteer';
 import { TweetData } from '../types';
-import { ScraperService } from './scraper-service';
+import { ScrapeError, ScraperService } from './scraper-service';
+import { saveDebugArtifacts } from './debug-artifacts';
+import { BrowserManager } from './browser-manager';
+import { logger } from './logger';
 
-puppeteer.use(StealthPlugin());
+const log = logger.child({ component: 'nitter-scraper' });
 
 export class NitterScraperService implements ScraperService {
-  private browser: any = null;
-  private readonly DEBUG: boolean = false;
   private lastScrapeTime: Map<string, Date> = new Map();
 
-  async initialize(): Promise<void> {
-    this.browser = await puppeteer.connect({
-      browserURL: 'http://localhost:9222',
-      defaultViewport: null,
-    });
-  }
-
-  async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-    }
-  }
+  constructor(private browsers: BrowserManager) {}
 
-  private async resolveShortUrl(shortUrl: string): Promise<string> {
-    const page = await this.browser.newPage();
+  // Follows the redirect on an extra page of the scrape holding `parent`
+  private async resolveShortUrl(shortUrl: string, parent: Page): Promise<string> {
     try {
-      await page.setDefaultNavigationTimeout(10000);
-      await page.goto(shortUrl, {
-        waitUntil: 'networkidle0',
-      });
+      return await this.browsers.withChildPage(parent, async (page) => {
+        await page.setDefaultNavigationTimeout(10000);
+        await page.goto(shortUrl, {
+          waitUntil: 'networkidle0',
+        });
 
-      const finalUrl = page.url();
+        const finalUrl = page.url();
 
-      if (this.DEBUG) {
-        console.log(`Resolved ${shortUrl} to ${finalUrl}`);
-      }
+        log.debug(`Resolved ${shortUrl} to ${finalUrl}`);
 
-      return finalUrl;
+        return finalUrl;
+      });
     } catch (error) {
-      console.error(`Error resolving short URL ${shortUrl}:`, error);
+      log.error(`Error resolving short URL ${shortUrl}`, error);
       return shortUrl;
-    } finally {
-      await page.close();
     }
   }
 
@@ -85,11 +72,7 @@ export class NitterScraperService implements ScraperService {
   }
 
   async getLatestTweets(nitterUrl: string): Promise<TweetData[]> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized');
-    }
-
-    const page = await this.browser.newPage();
+    const page = await this.browsers.acquirePage();
     try {
       await page.setViewport({ width: 1280, height: 800 });
       await page.setUserAgent(
@@ -105,12 +88,13 @@ export class NitterScraperService implements ScraperService {
         timeout: 10000,
       });
 
-      if (this.DEBUG) {
-        await page.screenshot({ path: 'nitter-page.png' });
-      }
+      await saveDebugArtifacts(page, 'nitter-page');
 
       await page.content();
       const tweets = await this.extractTweetsFromPage(page, nitterUrl);
+      if (tweets.length === 0) {
+        throw new ScrapeError('No posts found on the page');
+      }
 
       // Resolve video URLs for eligible tweets
       for (const tweet of tweets) {
@@ -130,22 +114,26 @@ export class NitterScraperService implements ScraperService {
       this.lastScrapeTime.set(nitterUrl, new Date());
 
       return tweets;
+    } catch (error) {
+      throw await ScrapeError.from(error, page);
     } finally {
-      await page.close();
+      await this.browsers.releasePage(page);
     }
   }
 
-  private async extractTweetsFromPage(
-    page: any,
+  // Public so the fixture harness can run it against saved pages
+  async extractTweetsFromPage(
+    page: Page,
     nitterUrl: string
   ): Promise<TweetData[]> {
-    // Forward console messages from the browser
-    page.on('console', (msg: { text: () => any }) =>
-      console.log('Browser console:', msg.text())
-    );
-    page.on('pageerror', (error: { message: any }) =>
-      console.log('Browser error:', error.message)
-    );
+    // Page scripts are Nitter's, not ours, so they're only of interest when
+    // debugging a scrape
+    if (log.isEnabled('debug')) {
+      page.on('console', (msg) => log.debug(`Browser console: ${msg.text()}`));
+      page.on('pageerror', (error) =>
+        log.debug(`Browser error: ${error instanceof Error ? error.message : error}`)
+      );
+    }
 
     // const hasElements = await page.evaluate(() => {
     //   return !!document.querySelector('.timeline-item');
@@ -157,19 +145,13 @@ export class NitterScraperService implements ScraperService {
     // });
     // console.log('First item HTML:', htmlContent);
 
-    if (this.DEBUG)
-      console.log(
-        'extractTweetsFromPage():  Extracting tweets from ' + nitterUrl
-      );
-    return await page.evaluate((nitterUrl: string) => {
-      if (this.DEBUG) console.log('Starting tweet extraction...');
+    log.debug('extractTweetsFromPage():  Extracting tweets from ' + nitterUrl);
+    const tweets: TweetData[] = await page.evaluate((nitterUrl: string) => {
       const extractedTweets: any[] = [];
 
       const tweetElements = document.querySelectorAll('.timeline-item');
-      if (this.DEBUG) console.log(`Found ${tweetElements.length} tweets`);
 
-      tweetElements.forEach((tweet, index) => {
-        if (this.DEBUG) console.log(`Processing tweet ${index + 1}`);
+      tweetElements.forEach((tweet) => {
         // Extract text content
         const textElement = tweet.querySelector('.tweet-content');
         const timeElement = tweet.querySelector('.tweet-date');
@@ -203,6 +185,7 @@ export class NitterScraperService implements ScraperService {
 
         // Extract images
         const images: string[] = [];
+        const imageMetadata: { alt?: string }[] = [];
         const imageElements = tweet.querySelectorAll('.attachment.image img');
         imageElements.forEach((img: Element) => {
           const src = (img as HTMLImageElement).src;
@@ -212,11 +195,22 @@ export class NitterScraperService implements ScraperService {
               .replace('%3Fname%3Dsmall%26format%3Dwebp', '')
               .replace('thumb', 'orig');
             images.push(fullResUrl);
+            imageMetadata.push({ alt: img.getAttribute('alt') || undefined });
           }
         });
 
         // Extract video links
         const videoLinks: string[] = [];
+
+        // Native videos, when the instance serves them as MP4 rather than HLS
+        tweet.querySelectorAll('.attachment.video-container video source[type="video/mp4"]')
+          .forEach((source: Element) => {
+            const src = (source as HTMLSourceElement).src;
+            if (src && !videoLinks.includes(src)) {
+              videoLinks.push(src);
+            }
+          });
+
         const cardElements = tweet.querySelectorAll('.card-container');
         cardElements.forEach((card: Element) => {
           const href = card.getAttribute('href');
@@ -271,6 +265,43 @@ export class NitterScraperService implements ScraperService {
           }
         }
 
+        // Self-threads are rendered as consecutive items in a .thread-line,
+        // each replying to the item above it
+        let inReplyToId: string | undefined;
+        const previous = tweet.previousElementSibling;
+        if (
+          tweet.closest('.thread-line') &&
+          previous?.classList.contains('timeline-item')
+        ) {
+          const author = tweet.querySelector('.username')?.textContent;
+          const previousAuthor = previous.querySelector('.username')?.textContent;
+          const previousLink = previous.querySelector('.tweet-link')?.getAttribute('href');
+          if (author && author === previousAuthor && previousLink) {
+            inReplyToId = previousLink;
+          }
+        }
+
+        // Retweets carry a header, quotes embed the quoted tweet
+        const toTwitterUrl = (href: string) =>
+          'https://x.com' + new URL(href, window.location.origin).pathname;
+        let kind = 'original';
+        let originalAuthor: string | undefined;
+        let originalUrl: string | undefined;
+        const quote = tweet.querySelector('.quote');
+        if (tweet.querySelector('.retweet-header')) {
+          kind = 'repost';
+          originalAuthor = tweet.querySelector('.tweet-header .username')?.textContent?.replace('@', '');
+          const href = tweetLink?.getAttribute('href');
+          originalUrl = href ? toTwitterUrl(href) : undefined;
+        } else if (quote) {
+          kind = 'quote';
+          originalAuthor = quote.querySelector('.username')?.textContent?.replace('@', '');
+          const href = quote.querySelector('.quote-link')?.getAttribute('href');
+          originalUrl = href ? toTwitterUrl(href) : undefined;
+        } else if (tweet.querySelector('.replying-to')) {
+          kind = 'reply';
+        }
+
         if (text && timestamp && tweetLink) {
           const id = `${tweetLink.getAttribute('href')}`;
 
@@ -279,10 +310,16 @@ export class NitterScraperService implements ScraperService {
             text: text,
             timestamp: timestamp,
             images: images,
+            imageMetadata: imageMetadata,
             videos: videoLinks,
             sourceAccount: nitterUrl,
             postedToBluesky: false,
-            platform:'nitter'
+            platform:'nitter',
+            inReplyToId: inReplyToId,
+            kind: kind,
+            pinned: !!tweet.querySelector('.pinned'),
+            originalAuthor: originalAuthor,
+            originalUrl: originalUrl
           };
 
           extractedTweets.push(extracted);
@@ -293,5 +330,7 @@ export class NitterScraperService implements ScraperService {
 
       return extractedTweets.slice(0, 10);
     }, nitterUrl);
+    log.debug(`Extracted ${tweets.length} posts from ${nitterUrl}`);
+    return tweets;
   }
 }
@@ -0,0 +1,84 @@
+// src/services/pds-resolver.ts
+import { resolveTxt } from 'dns/promises';
+
+const DEFAULT_PLC_DIRECTORY_URL = 'https://plc.directory';
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Finds the PDS hosting an account from its handle or DID: the handle is
+ * resolved to a DID through DNS or the handle's well-known endpoint, then
+ * the PDS is read from the DID document's `#atproto_pds` service.
+ */
+export async function resolvePdsUrl(identifier: string): Promise<string> {
+  const did = identifier.startsWith('did:')
+    ? identifier
+    : await resolveHandle(identifier);
+
+  const doc = await fetchDidDocument(did);
+  const service = (doc.service || []).find(
+    (service: any) =>
+      (service.id === '#atproto_pds' || service.id === `${did}#atproto_pds`) &&
+      service.type === 'AtprotoPersonalDataServer'
+  );
+  if (typeof service?.serviceEndpoint !== 'string') {
+    throw new Error(`DID document for ${did} does not name a PDS`);
+  }
+  return service.serviceEndpoint;
+}
+
+async function resolveHandle(handle: string): Promise<string> {
+  handle = handle.replace(/^@/, '').toLowerCase();
+  if (handle.includes('@') || !handle.includes('.')) {
+    throw new Error(
+      `Cannot resolve a PDS for ${handle}, use the account's handle or DID`
+    );
+  }
+
+  try {
+    const records = await resolveTxt(`_atproto.${handle}`);
+    const did = records
+      .map((chunks) => chunks.join(''))
+      .find((record) => record.startsWith('did='));
+    if (did) return did.slice('did='.length);
+  } catch (error) {
+    // No DNS record, fall through to the well-known endpoint
+  }
+
+  const response = await fetchWithTimeout(
+    `https://${handle}/.well-known/atproto-did`
+  );
+  const did = (await response.text()).trim();
+  if (!did.startsWith('did:')) {
+    throw new Error(`Handle ${handle} did not resolve to a DID`);
+  }
+  return did;
+}
+
+async function fetchDidDocument(did: string): Promise<any> {
+  let url: string;
+  if (did.startsWith('did:plc:')) {
+    // PLC_DIRECTORY_URL points at a local directory for integration testing
+    const directory =
+      process.env.PLC_DIRECTORY_URL || DEFAULT_PLC_DIRECTORY_URL;
+    url = `${directory}/${did}`;
+  } else if (did.startsWith('did:web:')) {
+    url = `https://${decodeURIComponent(
+      did.slice('did:web:'.length)
+    )}/.well-known/did.json`;
+  } else {
+    throw new Error(`Unsupported DID method: ${did}`);
+  }
+
+  const response = await fetchWithTimeout(url);
+  return await response.json();
+}
+
+async function fetchWithTimeout(url: string): Promise<Response> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url} (${response.status})`);
+  }
+  return response;
+}
@@ -0,0 +1,42 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { TweetData } from '../types';
+import { applyRepostPolicy } from './repost-policy';
+
+// Posts as each scraper extracted them from its fixture snapshot
+function goldenPosts(platform: string): TweetData[] {
+  const file = path.resolve(
+    __dirname,
+    `../../fixtures/${platform}/profile.golden.json`
+  );
+  return JSON.parse(readFileSync(file, 'utf8')).tweets;
+}
+
+describe('applyRepostPolicy', () => {
+  it.each(['twitter', 'nitter', 'truthsocial'])(
+    'gives scraped %s quotes a card linking to the quoted post',
+    (platform) => {
+      const quote = goldenPosts(platform).find(
+        (tweet) => tweet.kind === 'quote'
+      );
+
+      expect(quote?.originalUrl).toMatch(/^https:\/\//);
+      expect(applyRepostPolicy(quote!)?.quoteCard).toMatchObject({
+        uri: quote!.originalUrl,
+        title: expect.stringContaining('@thirdparty'),
+      });
+    }
+  );
+
+  it('skips reposts by default and attributes them on request', () => {
+    const repost = goldenPosts('twitter').find(
+      (tweet) => tweet.kind === 'repost'
+    )!;
+
+    expect(applyRepostPolicy(repost)).toBeUndefined();
+    expect(applyRepostPolicy(repost, 'attribute')?.text).toBe(
+      `🔁 reposted from @other\n\n${repost.text}`
+    );
+  });
+});
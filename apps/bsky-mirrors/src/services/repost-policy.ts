@@ -0,0 +1,68 @@
+// src/services/repost-policy.ts
+import { RepostPolicy, TweetData } from '../types';
+
+const PLATFORM_NAMES: Record<string, string> = {
+  twitter: 'X',
+  nitter: 'X',
+  truthsocial: 'Truth Social',
+};
+
+/**
+ * Applies a mirror's repost policy to a scraped post. Returns the post to
+ * mirror, possibly rewritten, or undefined if it should be skipped.
+ *
+ * Quote posts are the account's own words, so they are always mirrored;
+ * when they carry no media of their own they get a card linking to the
+ * quoted post.
+ */
+export function applyRepostPolicy(
+  tweet: TweetData,
+  policy: RepostPolicy = 'skip'
+): TweetData | undefined {
+  if (tweet.kind === 'quote') {
+    if (tweet.originalUrl && !tweet.images?.length && !tweet.videos?.length) {
+      return { ...tweet, quoteCard: cardFor(tweet) };
+    }
+    return tweet;
+  }
+
+  if (tweet.kind !== 'repost') {
+    return tweet;
+  }
+
+  const author = tweet.originalAuthor
+    ? `@${tweet.originalAuthor}`
+    : 'another account';
+  switch (policy) {
+    case 'skip':
+      return undefined;
+    case 'attribute':
+      return { ...tweet, text: `🔁 reposted from ${author}\n\n${tweet.text}` };
+    case 'quote':
+      // Without a link to the original there's nothing to quote
+      if (!tweet.originalUrl) {
+        return {
+          ...tweet,
+          text: `🔁 reposted from ${author}\n\n${tweet.text}`,
+        };
+      }
+      return {
+        ...tweet,
+        text: `🔁 reposted from ${author}`,
+        quoteCard: cardFor(tweet),
+      };
+    default:
+      throw new Error(`Unsupported repost policy: ${policy}`);
+  }
+}
+
+function cardFor(tweet: TweetData) {
+  const platform = PLATFORM_NAMES[tweet.platform] || tweet.platform;
+  return {
+    uri: tweet.originalUrl!,
+    title: tweet.originalAuthor
+      ? `@${tweet.originalAuthor} on ${platform}`
+      : `Post on ${platform}`,
+    description: tweet.kind === 'repost' ? tweet.text : '',
+  };
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TweetData } from '../types';
+import { classifyPostError, RetryQueue } from './retry-queue';
+
+const NOW = Date.parse('2026-10-16T12:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+function tweet(overrides: Partial<TweetData> = {}): TweetData {
+  return {
+    id: '1',
+    text: 'post',
+    timestamp: new Date(NOW - MINUTE).toISOString(),
+    images: [],
+    videos: [],
+    postedToBluesky: false,
+    sourceAccount: 'someone',
+    platform: 'twitter',
+    ...overrides,
+  };
+}
+
+describe('classifyPostError', () => {
+  it('retries network failures', () => {
+    expect(classifyPostError({ code: 'ECONNRESET' })).toBe('retryable');
+    expect(
+      classifyPostError(
+        Object.assign(new TypeError('fetch failed'), {
+          cause: { code: 'UND_ERR_SOCKET' },
+        })
+      )
+    ).toBe('retryable');
+    expect(classifyPostError(new TypeError('fetch failed'))).toBe('retryable');
+  });
+
+  it('retries rate limits, timeouts, server and session errors', () => {
+    for (const status of [408, 429, 500, 502, 503, 401, 403]) {
+      expect(classifyPostError({ status }), String(status)).toBe('retryable');
+    }
+  });
+
+  it('gives up on records Bluesky rejects', () => {
+    expect(classifyPostError({ status: 400, error: 'InvalidRecord' })).toBe(
+      'permanent'
+    );
+    expect(classifyPostError({ error: 'BlobTooLarge' })).toBe('permanent');
+    expect(classifyPostError({ status: 413 })).toBe('permanent');
+  });
+
+  it('retries anything it does not recognise', () => {
+    expect(classifyPostError(new Error('something odd'))).toBe('retryable');
+    expect(classifyPostError(undefined)).toBe('retryable');
+  });
+});
+
+describe('RetryQueue.recordFailure', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const queue = new RetryQueue({
+    maxAttempts: 5,
+    baseDelayMs: 5 * MINUTE,
+    maxDelayMs: 30 * MINUTE,
+    maxAgeMs: 24 * 60 * MINUTE,
+  });
+
+  it('doubles the delay after each failure up to the maximum', () => {
+    const post = tweet();
+    const delays = [1, 2, 3, 4].map(() => {
+      expect(queue.recordFailure(post, { status: 503 })).toBe('failed');
+      return (Date.parse(post.retry!.nextAttemptAt!) - NOW) / MINUTE;
+    });
+
+    expect(delays).toEqual([5, 10, 20, 30]);
+    expect(post.retry).toMatchObject({
+      attempts: 4,
+      lastErrorKind: 'retryable',
+      lastAttemptAt: new Date(NOW).toISOString(),
+    });
+  });
+
+  it('dead-letters once the attempts run out', () => {
+    const post = tweet({
+      retry: {
+        attempts: 4,
+        lastError: 'earlier',
+        lastErrorKind: 'retryable',
+        lastAttemptAt: new Date(NOW - MINUTE).toISOString(),
+      },
+    });
+
+    expect(queue.recordFailure(post, new Error('again'))).toBe('dead-lettered');
+    expect(post.retry).toMatchObject({
+      attempts: 5,
+      lastError: 'again',
+      deadLetteredAt: new Date(NOW).toISOString(),
+    });
+    expect(post.retry?.nextAttemptAt).toBeUndefined();
+  });
+
+  it('dead-letters permanent errors and posts too old to retry', () => {
+    expect(queue.recordFailure(tweet(), { status: 400 })).toBe('dead-lettered');
+
+    const old = tweet({
+      timestamp: new Date(NOW - 25 * 60 * MINUTE).toISOString(),
+    });
+    expect(queue.recordFailure(old, { status: 503 })).toBe('dead-lettered');
+  });
+});
@@ -0,0 +1,165 @@
+// src/services/retry-queue.ts
+import {
+  MirrorOutcome,
+  PostErrorKind,
+  RetryOptions,
+  TweetData,
+} from '../types';
+import { SeenIndex } from './seen-index-service';
+import { StorageService } from './storage-service';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'retry-queue' });
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 5 * 60 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+  maxAgeMs: 24 * 60 * 60 * 1000,
+};
+
+// XRPC error names that mean the record itself was rejected
+const PERMANENT_XRPC_ERRORS = new Set([
+  'InvalidRequest',
+  'InvalidRecord',
+  'InvalidSwap',
+  'BlobTooLarge',
+]);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Decide whether a failed post is worth trying again. Network failures, rate
+ * limits, auth hiccups and server errors are retryable; a record Bluesky
+ * rejects as invalid will be rejected again, so it is permanent. Anything
+ * unrecognised is treated as retryable and left to the attempt limit.
+ */
+export function classifyPostError(error: any): PostErrorKind {
+  const code = error?.code ?? error?.cause?.code;
+  if (code && NETWORK_ERROR_CODES.has(code)) return 'retryable';
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return 'retryable';
+  }
+
+  if (error?.error && PERMANENT_XRPC_ERRORS.has(error.error)) {
+    return 'permanent';
+  }
+
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  if (status === undefined) return 'retryable';
+  if (status === 408 || status === 429 || status >= 500) return 'retryable';
+  // Expired or refreshed sessions recover on the next login
+  if (status === 401 || status === 403) return 'retryable';
+  if (status >= 400) return 'permanent';
+  return 'retryable';
+}
+
+/**
+ * Durable queue of source posts that failed to mirror, built from the
+ * `failed` entries in a mirror's seen index and the stored tweet files they
+ * point at. Retry state lives on the stored tweet record itself so it
+ * survives restarts and can be inspected alongside the post.
+ */
+export class RetryQueue {
+  constructor(private readonly options: RetryOptions = DEFAULT_RETRY_OPTIONS) {}
+
+  /**
+   * Record a failed attempt on the tweet and work out what happens next:
+   * `failed` if it will be retried, `dead-lettered` if it won't.
+   */
+  recordFailure(tweet: TweetData, error: any): MirrorOutcome {
+    const now = Date.now();
+    const kind = classifyPostError(error);
+    const attempts = (tweet.retry?.attempts ?? 0) + 1;
+
+    tweet.postedToBluesky = false;
+    tweet.retry = {
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorKind: kind,
+      lastAttemptAt: new Date(now).toISOString(),
+    };
+
+    if (
+      kind === 'permanent' ||
+      attempts >= this.options.maxAttempts ||
+      this.isTooOld(tweet, now)
+    ) {
+      tweet.retry.deadLetteredAt = tweet.retry.lastAttemptAt;
+      return 'dead-lettered';
+    }
+
+    const delayMs = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** (attempts - 1)
+    );
+    tweet.retry.nextAttemptAt = new Date(now + delayMs).toISOString();
+    return 'failed';
+  }
+
+  /**
+   * Stored tweets of a mirror whose next attempt is due, oldest first so
+   * thread parents go out before their replies. Failures recorded before
+   * retry state existed are due immediately; ones too old to be worth
+   * posting any more are dead-lettered instead.
+   */
+  async dueTweets(
+    storageDir: string,
+    seenIndex: SeenIndex
+  ): Promise<TweetData[]> {
+    const now = Date.now();
+    const entries = seenIndex
+      .values()
+      .filter((entry) => entry.outcome === 'failed')
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+    const due: TweetData[] = [];
+    for (const entry of entries) {
+      const tweet = await StorageService.loadTweet(
+        StorageService.tweetFileName(entry.timestamp),
+        storageDir
+      );
+      if (!tweet || tweet.id !== entry.id) {
+        log.error(`Stored record for failed post ${entry.id} not found`);
+        continue;
+      }
+
+      if (this.isTooOld(tweet, now)) {
+        log.warn(`Giving up on ${tweet.id}, it is too old to mirror now`);
+        tweet.retry = {
+          ...(tweet.retry ?? {
+            attempts: 0,
+            lastError: 'Too old to retry',
+            lastErrorKind: 'retryable',
+            lastAttemptAt: new Date(now).toISOString(),
+          }),
+          nextAttemptAt: undefined,
+          deadLetteredAt: new Date(now).toISOString(),
+        };
+        await StorageService.saveTweet(tweet, storageDir);
+        await seenIndex.update(tweet.id, { outcome: 'dead-lettered' });
+        continue;
+      }
+
+      const nextAttemptAt = tweet.retry?.nextAttemptAt;
+      if (!nextAttemptAt || Date.parse(nextAttemptAt) <= now) {
+        due.push(tweet);
+      }
+    }
+    return due;
+  }
+
+  private isTooOld(tweet: TweetData, now: number): boolean {
+    const postedAt = Date.parse(tweet.timestamp);
+    return !isNaN(postedAt) && now - postedAt > this.options.maxAgeMs;
+  }
+}
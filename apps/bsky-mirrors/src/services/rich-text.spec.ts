@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { linkFacets, mentionAndTagFacets, shortenLinks } from './rich-text';
+import { splitIntoThreadParts } from './text-splitter';
+
+// Each link facet's bytes in its post, with the URI it points to
+function linkedText(text: string, limit?: number) {
+  const shortened = shortenLinks(text);
+  const parts = splitIntoThreadParts(shortened.text, limit);
+  return linkFacets(parts, shortened.links).map((facets, i) => {
+    const post = Buffer.from(parts[i].marker + parts[i].body);
+    return facets.map(({ index, features }) => ({
+      text: post.subarray(index.byteStart, index.byteEnd).toString(),
+      uri: (features[0] as { uri: string }).uri,
+    }));
+  });
+}
+
+describe('shortenLinks', () => {
+  it('replaces URLs with labels and records their byte ranges', () => {
+    const { text, links } = shortenLinks('Café ☕ https://www.example.com/a.');
+
+    expect(text).toBe('Café ☕ example.com/a.');
+    expect(links).toEqual([
+      {
+        label: 'example.com/a',
+        uri: 'https://www.example.com/a',
+        byteStart: 10,
+        byteEnd: 23,
+      },
+    ]);
+  });
+});
+
+describe('linkFacets', () => {
+  it('links the label, not the same text earlier in the post', () => {
+    const text = 'example.com is down, see https://example.com';
+    const [facets] = linkFacets(
+      splitIntoThreadParts(shortenLinks(text).text),
+      shortenLinks(text).links
+    );
+
+    expect(facets.map(({ index }) => index)).toEqual([
+      { byteStart: 25, byteEnd: 36 },
+    ]);
+  });
+
+  it('links the same label twice at each of its places', () => {
+    const text = 'https://a.com/x then https://a.com/x again';
+    const [facets] = linkFacets(
+      splitIntoThreadParts(shortenLinks(text).text),
+      shortenLinks(text).links
+    );
+
+    expect(facets.map(({ index }) => index)).toEqual([
+      { byteStart: 0, byteEnd: 7 },
+      { byteStart: 13, byteEnd: 20 },
+    ]);
+  });
+
+  it('moves links into the posts of a split thread after their marker', () => {
+    const text =
+      '🎉 Launch day for a.com/x https://b.org/notes and then ' +
+      'https://a.com/x with more words after it';
+
+    expect(linkedText(text, 50)).toEqual([
+      [{ text: 'b.org/notes', uri: 'https://b.org/notes' }],
+      [{ text: 'a.com/x', uri: 'https://a.com/x' }],
+    ]);
+  });
+
+  it('skips leading whitespace the splitter trims', () => {
+    expect(linkedText('\n  see https://example.com/page')).toEqual([
+      [{ text: 'example.com/page', uri: 'https://example.com/page' }],
+    ]);
+  });
+});
+
+// Each mention or tag facet's bytes in the text, with what it points to
+function faceted(...args: Parameters<typeof mentionAndTagFacets>) {
+  const bytes = Buffer.from(args[0]);
+  return mentionAndTagFacets(...args).map(({ index, features }) => {
+    const feature = features[0] as {
+      uri?: string;
+      did?: string;
+      tag?: string;
+    };
+    return {
+      text: bytes.subarray(index.byteStart, index.byteEnd).toString(),
+      to: feature.uri ?? feature.did ?? feature.tag,
+    };
+  });
+}
+
+describe('mentionAndTagFacets', () => {
+  it('mentions mapped handles and links unmapped ones to their profile', () => {
+    expect(
+      faceted('Thanks @Alice and @bob', 'twitter', {
+        handles: { alice: 'did:plc:alice' },
+      })
+    ).toEqual([
+      { text: '@Alice', to: 'did:plc:alice' },
+      { text: '@bob', to: 'https://x.com/bob' },
+    ]);
+  });
+
+  it('leaves handles it cannot resolve as plain text when asked', () => {
+    expect(faceted('Thanks @bob', 'twitter', { unmapped: 'plain' })).toEqual(
+      []
+    );
+    expect(faceted('Thanks @bob', 'somewhere-else')).toEqual([]);
+  });
+
+  it('links Mastodon-style handles to their Truth Social profile', () => {
+    expect(faceted('cc @someone@example.social.', 'truthsocial')).toEqual([
+      {
+        text: '@someone@example.social',
+        to: 'https://truthsocial.com/@someone@example.social',
+      },
+    ]);
+  });
+
+  it('ignores email addresses and handles inside URLs', () => {
+    expect(
+      faceted(
+        'Mail me@example.com or see truthsocial.com/@someone and x.com/@other',
+        'truthsocial'
+      )
+    ).toEqual([]);
+  });
+
+  it('leaves out mentions overlapping taken facets', () => {
+    const text = 'see a.com/x@y then @y';
+    const taken = linkFacets(splitIntoThreadParts(text), [
+      {
+        label: 'a.com/x@y',
+        uri: 'https://a.com/x@y',
+        byteStart: 4,
+        byteEnd: 13,
+      },
+    ])[0];
+
+    expect(faceted(text, 'twitter', {}, taken)).toEqual([
+      { text: '@y', to: 'https://x.com/y' },
+    ]);
+  });
+
+  it('stops mentions and tags at trailing punctuation', () => {
+    expect(
+      faceted('Hi @bob, (@carol) #launch! #v2.0. #2024 and #ok…', 'twitter')
+    ).toEqual([
+      { text: '@bob', to: 'https://x.com/bob' },
+      { text: '@carol', to: 'https://x.com/carol' },
+      { text: '#launch', to: 'launch' },
+      { text: '#v2.0', to: 'v2.0' },
+      { text: '#ok', to: 'ok' },
+    ]);
+  });
+
+  it('counts byte offsets past multibyte text', () => {
+    const text = '🎉 Café ＃ニュース with @bob 日本';
+    const facets = mentionAndTagFacets(text, 'twitter');
+
+    expect(facets.map(({ index }) => index)).toEqual([
+      { byteStart: 32, byteEnd: 36 },
+      { byteStart: 11, byteEnd: 26 },
+    ]);
+    expect(faceted(text, 'twitter')).toEqual([
+      { text: '@bob', to: 'https://x.com/bob' },
+      { text: '＃ニュース', to: 'ニュース' },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+// src/services/rich-text.ts
+import { AppBskyRichtextFacet } from '@atproto/api';
+import { MentionPolicy } from '../types';
+import { ThreadPart } from './text-splitter';
+
+// Longest label shown in place of a URL, ellipsis included
+const MAX_LINK_LABEL_LENGTH = 30;
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+// Punctuation that ends the surrounding sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"”’]+$/;
+
+export interface ShortLink {
+  label: string;
+  uri: string;
+  // UTF-8 byte range of the label in the shortened text
+  byteStart: number;
+  byteEnd: number;
+}
+
+/**
+ * Replaces each URL in the text with a short label, the host and as much of
+ * the path as fits, so long links don't eat the post's grapheme budget. The
+ * full URIs are returned alongside, in order, for the link facets.
+ */
+export function shortenLinks(text: string): {
+  text: string;
+  links: ShortLink[];
+} {
+  const links: ShortLink[] = [];
+  let shortened = '';
+  let bytes = 0;
+  let copied = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const uri = match[0].replace(TRAILING_PUNCTUATION, '');
+    const label = linkLabel(uri);
+    const before = text.slice(copied, match.index);
+    bytes += Buffer.byteLength(before);
+    const byteEnd = bytes + Buffer.byteLength(label);
+    links.push({ label, uri, byteStart: bytes, byteEnd });
+    shortened += before + label;
+    bytes = byteEnd;
+    copied = match.index! + uri.length;
+  }
+  return { text: shortened + text.slice(copied), links };
+}
+
+export function linkLabel(uri: string): string {
+  let label: string;
+  try {
+    const url = new URL(uri);
+    const rest = (url.pathname + url.search + url.hash).replace(/^\/$/, '');
+    label = url.host.replace(/^www\./, '') + rest;
+  } catch (error) {
+    label = uri.replace(/^https?:\/\//, '');
+  }
+
+  if (label.length <= MAX_LINK_LABEL_LENGTH) {
+    return label;
+  }
+  return label.substring(0, MAX_LINK_LABEL_LENGTH - 1) + '…';
+}
+
+/**
+ * Link facets for each post of a (possibly split) post, moving the label
+ * ranges recorded by shortenLinks into the post they ended up in. Offsets
+ * are UTF-8 byte offsets, as facets require.
+ */
+export function linkFacets(
+  parts: ThreadPart[],
+  links: ShortLink[]
+): AppBskyRichtextFacet.Main[][] {
+  return parts.map(({ marker, body, byteStart }) => {
+    const byteEnd = byteStart + Buffer.byteLength(body);
+    // Where the body starts within the post, after its marker
+    const shift = Buffer.byteLength(marker) - byteStart;
+    return links
+      .filter((link) => link.byteStart >= byteStart && link.byteEnd <= byteEnd)
+      .map(({ uri, byteStart, byteEnd }) => ({
+        index: { byteStart: byteStart + shift, byteEnd: byteEnd + shift },
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri }],
+      }));
+  });
+}
+
+const PROFILE_URLS: Record<string, (handle: string) => string> = {
+  twitter: (handle) => `https://x.com/${handle}`,
+  nitter: (handle) => `https://x.com/${handle}`,
+  truthsocial: (handle) => `https://truthsocial.com/@${handle}`,
+};
+
+// A source handle, optionally with a Mastodon-style @instance, not part of
+// an email address or a path
+const MENTION_PATTERN =
+  /(^|[^\w@/.])@([A-Za-z0-9_]{1,30}(?:@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)?)/g;
+// Same rules as Bluesky's own tag detection: not all digits, no trailing
+// punctuation, at most 64 characters
+const TAG_PATTERN = /(^|\s)[#＃]([^\s#＃]+)/gu;
+const MAX_TAG_LENGTH = 64;
+
+/**
+ * Mention and hashtag facets for a post's text. Source mentions only become
+ * Bluesky mentions through the mirror's mapping table, since a Bluesky
+ * account with the same name is usually someone else; unmapped ones link to
+ * the source profile or stay plain text. Anything overlapping `taken`
+ * (e.g. the post's link facets) is left out.
+ */
+export function mentionAndTagFacets(
+  text: string,
+  platform: string,
+  policy: MentionPolicy = {},
+  taken: AppBskyRichtextFacet.Main[] = []
+): AppBskyRichtextFacet.Main[] {
+  const facets: AppBskyRichtextFacet.Main[] = [];
+  const add = (
+    start: number,
+    end: number,
+    feature: AppBskyRichtextFacet.Main['features'][number]
+  ) => {
+    const byteStart = Buffer.byteLength(text.slice(0, start));
+    const byteEnd = byteStart + Buffer.byteLength(text.slice(start, end));
+    const overlaps = [...taken, ...facets].some(
+      ({ index }) => byteStart < index.byteEnd && index.byteStart < byteEnd
+    );
+    if (!overlaps) {
+      facets.push({ index: { byteStart, byteEnd }, features: [feature] });
+    }
+  };
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = match[2];
+    const start = match.index! + match[1].length;
+    const end = start + 1 + handle.length;
+
+    const did = policy.handles?.[handle.toLowerCase()];
+    const profileUrl = PROFILE_URLS[platform]?.(handle);
+    if (did) {
+      add(start, end, { $type: 'app.bsky.richtext.facet#mention', did });
+    } else if (policy.unmapped !== 'plain' && profileUrl) {
+      add(start, end, {
+        $type: 'app.bsky.richtext.facet#link',
+        uri: profileUrl,
+      });
+    }
+  }
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = match[2].replace(/\p{P}+$/u, '');
+    if (!tag || /^\d+$/.test(tag) || tag.length > MAX_TAG_LENGTH) continue;
+    const start = match.index! + match[1].length;
+    add(start, start + 1 + tag.length, {
+      $type: 'app.bsky.richtext.facet#tag',
+      tag,
+    });
+  }
+
+  return facets;
+}
@@ -0,0 +1,111 @@
+// src/services/scrape-monitor.ts
+import { AccountPair } from '../types';
+import { AlertSink, ScrapeAlert } from './alert-sinks';
+import { debugDirFor, writeSnapshot } from './debug-artifacts';
+import { logger } from './logger';
+import { ScrapeError } from './scraper-service';
+
+const log = logger.child({ component: 'scrape-monitor' });
+
+interface FailureState {
+  consecutiveFailures: number;
+  failingSince: string;
+  alerted: boolean;
+}
+
+/**
+ * Counts consecutive failed scrapes per mirror and platform. Crossing the
+ * threshold sends one breakage alert, with a snapshot of the page, to every
+ * sink; the next successful scrape sends one recovery notice. Counts live
+ * in memory, so a restart starts them over.
+ */
+export class ScrapeMonitor {
+  private failures = new Map<string, FailureState>();
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly sinks: AlertSink[]
+  ) {}
+
+  async recordFailure(pair: AccountPair, error: unknown): Promise<void> {
+    const key = this.keyFor(pair);
+    const state = this.failures.get(key) ?? {
+      consecutiveFailures: 0,
+      failingSince: new Date().toISOString(),
+      alerted: false,
+    };
+    state.consecutiveFailures++;
+    this.failures.set(key, state);
+
+    if (state.alerted || state.consecutiveFailures < this.failureThreshold) {
+      return;
+    }
+    state.alerted = true;
+
+    const snapshot = error instanceof ScrapeError ? error.snapshot : undefined;
+    let files: string[] | undefined;
+    if (snapshot) {
+      // Kept regardless of debug artifacts, for whoever picks up the alert
+      files = await writeSnapshot(
+        snapshot,
+        debugDirFor(pair),
+        'scrape-failure'
+      ).catch((writeError) => {
+        log.warn('Failed to save the scrape failure snapshot', writeError);
+        return undefined;
+      });
+    }
+
+    log.error(
+      `Scraping has failed ${state.consecutiveFailures} times in a row, alerting`,
+      error
+    );
+    await this.send({
+      kind: 'broken',
+      mirror: pair.twitter,
+      platform: pair.platform,
+      consecutiveFailures: state.consecutiveFailures,
+      failingSince: state.failingSince,
+      lastError: error instanceof Error ? error.message : String(error),
+      snapshot,
+      files,
+    });
+  }
+
+  async recordSuccess(pair: AccountPair): Promise<void> {
+    const key = this.keyFor(pair);
+    const state = this.failures.get(key);
+    if (!state) return;
+    this.failures.delete(key);
+
+    if (state.alerted) {
+      log.info(
+        `Scraping works again after ${state.consecutiveFailures} failures`
+      );
+      await this.send({
+        kind: 'recovered',
+        mirror: pair.twitter,
+        platform: pair.platform,
+        consecutiveFailures: state.consecutiveFailures,
+        failingSince: state.failingSince,
+      });
+    }
+  }
+
+  private keyFor(pair: AccountPair): string {
+    return `${pair.platform}:${pair.twitter}`;
+  }
+
+  // A sink that fails doesn't keep the others, or the check, from running
+  private async send(alert: ScrapeAlert): Promise<void> {
+    await Promise.all(
+      this.sinks.map((sink) =>
+        sink
+          .send(alert)
+          .catch((error) =>
+            log.error(`Failed to send ${alert.kind} alert`, error)
+          )
+      )
+    );
+  }
+}
@@ -2,49 +2,43 @@ import { ScraperService } from './scraper-service';
 import { TwitterScraperService } from './twitter-scraper-service';
 import { NitterScraperService } from './nitter-scraper-service';
 import { TruthSocialScraperService } from './truth-social-scraper.service';
-import puppeteer from 'puppeteer-extra';
+import { BrowserManager, DEFAULT_BROWSER_OPTIONS } from './browser-manager';
+import { BrowserOptions } from '../types';
 
 export class ScraperFactory {
   private scrapers: Map<string, ScraperService> = new Map();
 
-  private browser: any = null;
+  private browsers: BrowserManager;
 
-  async getScraperForPlatform(platform: string): Promise<ScraperService> {
-
-    if(!this.browser){
-      this.browser = await puppeteer.connect({
-        browserURL: 'http://localhost:9222',
-        defaultViewport: null,
-      });
-    }
+  constructor(browserOptions?: Partial<BrowserOptions>) {
+    this.browsers = new BrowserManager({ ...DEFAULT_BROWSER_OPTIONS, ...browserOptions });
+  }
 
+  async getScraperForPlatform(platform: string): Promise<ScraperService> {
     if (this.scrapers.has(platform)) {
       return this.scrapers.get(platform)!;
     }
 
-    let scraper: ScraperService;
-    switch (platform) {
-      case 'twitter':
-        scraper = new TwitterScraperService();
-        break;
-      case 'nitter':
-        scraper = new NitterScraperService();
-        break;
-      case 'truthsocial':
-        scraper = new TruthSocialScraperService();
-        break;
-      default:
-        throw new Error(`Unsupported platform: ${platform}`);
-    }
-
-    await scraper.initialize();
+    const scraper = createScraper(platform, this.browsers);
     this.scrapers.set(platform, scraper);
     return scraper;
   }
 
+  // Detaches from an attached browser rather than closing it
   async cleanup(): Promise<void> {
-    for (const scraper of this.scrapers.values()) {
-      await scraper.cleanup();
-    }
+    await this.browsers.close();
+  }
+}
+
+export function createScraper(platform: string, browsers: BrowserManager): ScraperService {
+  switch (platform) {
+    case 'twitter':
+      return new TwitterScraperService(browsers);
+    case 'nitter':
+      return new NitterScraperService(browsers);
+    case 'truthsocial':
+      return new TruthSocialScraperService(browsers);
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,28 @@
+import type { Page } from "puppeteer";
 import { TweetData } from "../types";
+import { capturePage, PageSnapshot } from "./debug-artifacts";
 
 export interface ScraperService{
+ // Newest first, though pinned posts (flagged as such) may lead
  getLatestTweets(twitter: string): Promise<TweetData[]>;
- initialize(): any;   
- cleanup(): any;
-}
\ No newline at end of file
+ // The DOM extraction on an already loaded page of `sourceUrl`
+ extractTweetsFromPage(page: Page, sourceUrl: string): Promise<TweetData[]>;
+}
+
+/**
+ * A scrape that failed or found no posts, most likely because the site's
+ * markup changed. Carries a snapshot of the page for the breakage alert.
+ */
+export class ScrapeError extends Error {
+  constructor(message: string, readonly snapshot?: PageSnapshot, override readonly cause?: unknown) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+
+  // Wraps an error thrown while scraping `page`, snapshotting the page first
+  static async from(error: unknown, page: Page): Promise<ScrapeError> {
+    if (error instanceof ScrapeError && error.snapshot) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new ScrapeError(message, await capturePage(page), error);
+  }
+}
@@ -0,0 +1,187 @@
+// src/services/seen-index-service.ts
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  BlueskyMirror,
+  MirrorOutcome,
+  ReplyRefs,
+  SeenEntry,
+  TweetData,
+} from '../types';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'seen-index' });
+
+const INDEX_FILE = 'seen-index.json';
+
+/**
+ * Durable record of the source post IDs a mirror has already handled, kept in
+ * the mirror's storage directory so restarts don't re-post or skip anything.
+ */
+export class SeenIndex {
+  private entries: Map<string, SeenEntry>;
+
+  private constructor(
+    private readonly storageDir: string,
+    entries: SeenEntry[],
+    private readonly readOnly: boolean
+  ) {
+    this.entries = new Map(entries.map((entry) => [entry.id, entry]));
+  }
+
+  /**
+   * Load the index for a storage directory. If no index exists yet, it is
+   * seeded from the tweet files already saved there. A read-only index (as
+   * used by dry runs) is seeded and updated in memory but never written.
+   */
+  static async load(storageDir: string, readOnly = false): Promise<SeenIndex> {
+    try {
+      const content = await fs.readFile(
+        path.join(storageDir, INDEX_FILE),
+        'utf-8'
+      );
+      return new SeenIndex(storageDir, JSON.parse(content), readOnly);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(
+          `Failed to read seen index in ${storageDir}: ${error.message}`
+        );
+      }
+    }
+
+    const index = new SeenIndex(
+      storageDir,
+      await SeenIndex.entriesFromStoredTweets(storageDir),
+      readOnly
+    );
+    if (index.entries.size > 0) {
+      log.info(
+        `Seeded seen index for ${storageDir} with ${index.entries.size} stored tweets`
+      );
+      await index.save();
+    }
+    return index;
+  }
+
+  private static async entriesFromStoredTweets(
+    storageDir: string
+  ): Promise<SeenEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(storageDir);
+    } catch (error) {
+      return [];
+    }
+
+    const entries: SeenEntry[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json') || file === INDEX_FILE) continue;
+      try {
+        const content = await fs.readFile(path.join(storageDir, file), 'utf-8');
+        const tweet: TweetData = JSON.parse(content);
+        if (!tweet.id) continue;
+        entries.push({
+          id: tweet.id,
+          outcome: tweet.postedToBluesky
+            ? 'posted'
+            : tweet.skippedBy
+            ? 'skipped'
+            : tweet.retry?.deadLetteredAt
+            ? 'dead-lettered'
+            : 'failed',
+          timestamp: tweet.timestamp,
+          updatedAt: new Date().toISOString(),
+          ...(tweet.bluesky && { bluesky: tweet.bluesky }),
+          ...(tweet.skippedBy && { skippedBy: tweet.skippedBy }),
+        });
+      } catch (error) {
+        log.warn(`Skipping unreadable stored tweet ${file}`, error);
+      }
+    }
+    return entries;
+  }
+
+  get(id: string): SeenEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  values(): SeenEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Whether a source post has already been dealt with. Entries still marked
+   * `pending` (e.g. the process died mid-post) are not considered seen, so
+   * they go back through duplicate detection against recent Bluesky posts.
+   */
+  has(id: string): boolean {
+    const entry = this.entries.get(id);
+    return !!entry && entry.outcome !== 'pending';
+  }
+
+  /**
+   * The Bluesky posts created for a source post, or undefined if it was
+   * never mirrored.
+   */
+  getBlueskyMirror(id: string): BlueskyMirror | undefined {
+    return this.entries.get(id)?.bluesky;
+  }
+
+  /**
+   * Where a reply to the given source post should attach on Bluesky: under
+   * the last post of its (possibly split) mirrored copy.
+   */
+  replyRefsFor(id: string): ReplyRefs | undefined {
+    const entry = this.entries.get(id);
+    const bluesky = entry?.bluesky;
+    if (!bluesky || bluesky.posts.length === 0 || entry.outcome === 'deleted') {
+      return undefined;
+    }
+    return {
+      root: bluesky.root,
+      parent: bluesky.posts[bluesky.posts.length - 1],
+    };
+  }
+
+  async record(tweet: TweetData, outcome: MirrorOutcome): Promise<void> {
+    this.entries.set(tweet.id, {
+      id: tweet.id,
+      outcome,
+      timestamp: tweet.timestamp,
+      updatedAt: new Date().toISOString(),
+      ...(tweet.bluesky && { bluesky: tweet.bluesky }),
+      ...(tweet.skippedBy && { skippedBy: tweet.skippedBy }),
+    });
+    await this.save();
+  }
+
+  /**
+   * Update bookkeeping on an existing entry, such as its outcome or when it
+   * went missing from the source.
+   */
+  async update(
+    id: string,
+    changes: Partial<Pick<SeenEntry, 'outcome' | 'missingSince'>>
+  ): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new Error(`No seen index entry for ${id}`);
+    }
+    Object.assign(entry, changes, { updatedAt: new Date().toISOString() });
+    if (!entry.missingSince) delete entry.missingSince;
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    if (this.readOnly) return;
+    const indexPath = path.join(this.storageDir, INDEX_FILE);
+    const tmpPath = `${indexPath}.tmp`;
+    await fs.mkdir(this.storageDir, { recursive: true });
+    // Write then rename so a crash never leaves a truncated index behind
+    await fs.writeFile(
+      tmpPath,
+      JSON.stringify(Array.from(this.entries.values()), null, 2)
+    );
+    await fs.rename(tmpPath, indexPath);
+  }
+}
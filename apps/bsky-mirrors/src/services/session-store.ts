@@ -0,0 +1,81 @@
+// src/services/session-store.ts
+import { AtpSessionData } from '@atproto/api';
+import fs from 'fs/promises';
+import path from 'path';
+import { AccountPair } from '../types';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'session-store' });
+
+const SESSION_FILE = 'bluesky-session.json';
+
+interface StoredSession {
+  identifier: string;
+  service: string;
+  session: AtpSessionData;
+  savedAt: string;
+}
+
+/**
+ * Keeps each mirror's Bluesky session in its storage directory so restarts
+ * resume it instead of creating a new session with the app password.
+ */
+export class SessionStore {
+  private static sessionPath(pair: AccountPair): string {
+    return path.join(pair.storageDir, SESSION_FILE);
+  }
+
+  /**
+   * The saved session for a mirror, or undefined if there is none or it
+   * belongs to a different account or service than the one configured now.
+   */
+  static async load(
+    pair: AccountPair,
+    service: string
+  ): Promise<AtpSessionData | undefined> {
+    try {
+      const content = await fs.readFile(this.sessionPath(pair), 'utf-8');
+      const stored: StoredSession = JSON.parse(content);
+      if (
+        stored.identifier !== pair.bluesky.identifier ||
+        stored.service !== service
+      ) {
+        return undefined;
+      }
+      return stored.session;
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        log.warn(
+          `Ignoring unreadable Bluesky session for ${pair.twitter}`,
+          error
+        );
+      }
+      return undefined;
+    }
+  }
+
+  static async save(
+    pair: AccountPair,
+    service: string,
+    session: AtpSessionData
+  ): Promise<void> {
+    const stored: StoredSession = {
+      identifier: pair.bluesky.identifier,
+      service,
+      session,
+      savedAt: new Date().toISOString(),
+    };
+    const sessionPath = this.sessionPath(pair);
+    const tmpPath = `${sessionPath}.tmp`;
+    await fs.mkdir(pair.storageDir, { recursive: true });
+    // Tokens are credentials, keep them readable by this user only
+    await fs.writeFile(tmpPath, JSON.stringify(stored, null, 2), {
+      mode: 0o600,
+    });
+    await fs.rename(tmpPath, sessionPath);
+  }
+
+  static async clear(pair: AccountPair): Promise<void> {
+    await fs.rm(this.sessionPath(pair), { force: true });
+  }
+}
@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TweetData } from '../types';
+import { StorageService } from './storage-service';
+
+describe('StorageService', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('reloads downloaded media as bytes', async () => {
+    const tweet: TweetData = {
+      id: '1',
+      text: 'with media',
+      timestamp: '2026-10-16T12:00:00.000Z',
+      images: ['https://example.com/a.jpg', Buffer.from([0x89, 0x50, 0x4e])],
+      videos: ['https://example.com/v.mp4'],
+      videoThumbnails: [Buffer.from('thumb')],
+      postedToBluesky: false,
+      sourceAccount: 'someone',
+      platform: 'truthsocial',
+    };
+    await StorageService.saveTweet(tweet, storageDir);
+
+    const loaded = await StorageService.loadTweet(
+      StorageService.tweetFileName(tweet.timestamp),
+      storageDir
+    );
+
+    expect(loaded).toEqual(tweet);
+    expect(Buffer.isBuffer(loaded?.images[1])).toBe(true);
+    expect(Buffer.isBuffer(loaded?.videoThumbnails?.[0])).toBe(true);
+  });
+});
@@ -2,14 +2,30 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { TweetData } from '../types';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'storage' });
 
 export class StorageService {
   private static sanitizeTimestamp(timestamp: string): string {
     return timestamp.replace(/:/g, '_').replace(/[<>:"\/\\|?*]/g, '_');
   }
 
+  static tweetFileName(timestamp: string): string {
+    return `${this.sanitizeTimestamp(timestamp)}.json`;
+  }
+
+  // JSON.stringify writes a Buffer as { type: 'Buffer', data: [...] }; turn
+  // downloaded media back into bytes so a reloaded post keeps its images
+  private static reviveBuffers(_key: string, value: any): any {
+    if (value?.type === 'Buffer' && Array.isArray(value.data)) {
+      return Buffer.from(value.data);
+    }
+    return value;
+  }
+
   static async saveTweet(tweet: TweetData, storageDir: string): Promise<void> {
-    const tweetPath = path.join(storageDir, `${this.sanitizeTimestamp(tweet.timestamp)}.json`);
+    const tweetPath = path.join(storageDir, this.tweetFileName(tweet.timestamp));
     await fs.mkdir(path.dirname(tweetPath), { recursive: true });
     await fs.writeFile(tweetPath, JSON.stringify(tweet, null, 2));
   }
@@ -18,9 +34,9 @@ export class StorageService {
     try {
       const tweetPath = path.join(storageDir, `${tweetFile}`);
       const content = await fs.readFile(tweetPath, 'utf-8');
-      return JSON.parse(content);
+      return JSON.parse(content, this.reviveBuffers);
     } catch (error) {
-      console.error(`Failed to load tweet ${tweetFile}:`, error);
+      log.error(`Failed to load tweet ${tweetFile}`, error);
       return null;
     }
   }
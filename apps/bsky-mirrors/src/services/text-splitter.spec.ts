@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  graphemeLength,
+  POST_GRAPHEME_LIMIT,
+  splitIntoThread,
+} from './text-splitter';
+
+const FAMILY = '👨‍👩‍👧‍👦';
+
+// Post text without its `i/N ` marker
+function body(post: string): string {
+  return post.replace(/^\d+\/\d+ /, '');
+}
+
+describe('graphemeLength', () => {
+  it('counts plain characters', () => {
+    expect(graphemeLength('hello')).toBe(5);
+    expect(graphemeLength('')).toBe(0);
+  });
+
+  it('counts an emoji sequence once', () => {
+    expect(graphemeLength(FAMILY)).toBe(1);
+    expect(graphemeLength('🇺🇦')).toBe(1);
+    expect(graphemeLength('👍🏽')).toBe(1);
+    expect(graphemeLength(`hi ${FAMILY}!`)).toBe(5);
+  });
+
+  it('counts a combining accent with its letter', () => {
+    expect(graphemeLength('café')).toBe(4);
+  });
+});
+
+describe('splitIntoThread', () => {
+  it('returns text that fits as one post without a marker', () => {
+    expect(splitIntoThread('  short post \n')).toEqual(['short post']);
+  });
+
+  it('keeps text of exactly the limit in one post', () => {
+    const text = 'a'.repeat(POST_GRAPHEME_LIMIT);
+    expect(splitIntoThread(text)).toEqual([text]);
+  });
+
+  it('counts emoji as graphemes when deciding whether text fits', () => {
+    const text = FAMILY.repeat(POST_GRAPHEME_LIMIT);
+    expect(splitIntoThread(text)).toEqual([text]);
+  });
+
+  it('fills chunks up to the limit including the marker', () => {
+    expect(splitIntoThread('abcdef ghijkl', 10)).toEqual([
+      '1/2 abcdef',
+      '2/2 ghijkl',
+    ]);
+  });
+
+  it('numbers the posts and keeps each within the limit', () => {
+    const text = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+    const posts = splitIntoThread(text, 50);
+
+    expect(posts.length).toBeGreaterThan(1);
+    posts.forEach((post, i) => {
+      expect(post.startsWith(`${i + 1}/${posts.length} `)).toBe(true);
+      expect(graphemeLength(post)).toBeLessThanOrEqual(50);
+    });
+    expect(posts.map(body).join(' ')).toBe(text);
+  });
+
+  it('leaves room for a wider marker once there are ten posts or more', () => {
+    const text = Array.from({ length: 40 }, () => 'abcd').join(' ');
+    const posts = splitIntoThread(text, 14);
+
+    expect(posts.length).toBeGreaterThanOrEqual(10);
+    expect(posts[posts.length - 1]).toMatch(
+      new RegExp(`^${posts.length}/${posts.length} `)
+    );
+    for (const post of posts) {
+      expect(graphemeLength(post)).toBeLessThanOrEqual(14);
+    }
+    expect(posts.map(body).join(' ')).toBe(text);
+  });
+
+  it('breaks between words, never inside them', () => {
+    const text =
+      'The quick brown fox jumps over the lazy dog and keeps running';
+    const words = text.split(' ');
+    for (const post of splitIntoThread(text, 20)) {
+      for (const word of body(post).split(' ')) {
+        expect(words).toContain(word);
+      }
+    }
+  });
+
+  it('keeps URLs, mentions and hashtags whole', () => {
+    const url = 'https://example.com/some/long/path?with=query&and=more';
+    const text = `Read this ${url} from @someone.bsky.social about #bluesky today`;
+    const posts = splitIntoThread(text, 70);
+
+    expect(posts.length).toBeGreaterThan(1);
+    const bodies = posts.map(body);
+    expect(bodies.some((chunk) => chunk.includes(url))).toBe(true);
+    expect(bodies.some((chunk) => chunk.includes('@someone.bsky.social'))).toBe(
+      true
+    );
+    expect(bodies.some((chunk) => chunk.includes('#bluesky'))).toBe(true);
+  });
+
+  it('prefers breaking at a paragraph, then a sentence', () => {
+    const paragraphs = splitIntoThread(
+      'First paragraph. It goes on\n\nSecond paragraph here',
+      40
+    );
+    expect(paragraphs.map(body)).toEqual([
+      'First paragraph. It goes on',
+      'Second paragraph here',
+    ]);
+
+    const sentences = splitIntoThread(
+      'One sentence ends here. Then another one starts',
+      40
+    );
+    expect(sentences.map(body)).toEqual([
+      'One sentence ends here.',
+      'Then another one starts',
+    ]);
+  });
+
+  it('splits a word longer than a post at grapheme boundaries', () => {
+    const text = FAMILY.repeat(30);
+    const posts = splitIntoThread(text, 14);
+
+    expect(posts.length).toBeGreaterThan(1);
+    for (const post of posts) {
+      expect(graphemeLength(post)).toBeLessThanOrEqual(14);
+      expect(body(post)).toMatch(new RegExp(`^(${FAMILY})+$`, 'u'));
+    }
+    expect(posts.map(body).join('')).toBe(text);
+  });
+});
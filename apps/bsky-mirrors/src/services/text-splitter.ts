@@ -0,0 +1,157 @@
+// src/services/text-splitter.ts
+
+// Bluesky's limit on post text, counted in graphemes
+export const POST_GRAPHEME_LIMIT = 300;
+
+// Chunks never break at a whitespace run that leaves them less than this
+// full, unless there's no other whitespace to break at
+const MIN_FILL = 0.5;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Length of a string in graphemes, counted the same way Bluesky validates
+ * post text (one per user-perceived character, so a flag or a family emoji
+ * counts once however many code units it takes).
+ */
+export function graphemeLength(text: string): number {
+  return Array.from(segmenter.segment(text)).length;
+}
+
+export interface ThreadPart {
+  // `i/N ` marker, empty when the text fits in one post
+  marker: string;
+  body: string;
+  // UTF-8 byte offset of the body in the text that was split
+  byteStart: number;
+}
+
+/**
+ * Splits post text into the texts of a thread, each within `limit`
+ * graphemes including its `i/N ` marker. Text that fits is returned as a
+ * single post without a marker.
+ *
+ * Breaks prefer paragraph ends, then line ends, then sentence ends, then any
+ * whitespace, so URLs, mentions and hashtags are never cut. Only a single
+ * word longer than a whole post is split mid-word, at a grapheme boundary.
+ * Nothing but the whitespace at a break is dropped.
+ */
+export function splitIntoThread(
+  text: string,
+  limit = POST_GRAPHEME_LIMIT
+): string[] {
+  return splitIntoThreadParts(text, limit).map(
+    ({ marker, body }) => marker + body
+  );
+}
+
+/**
+ * Same split as splitIntoThread, keeping each post's marker and body apart
+ * along with where the body came from, so ranges in the original text (such
+ * as facets) can be carried over to the posts.
+ */
+export function splitIntoThreadParts(
+  text: string,
+  limit = POST_GRAPHEME_LIMIT
+): ThreadPart[] {
+  const trimmed = text.trim();
+  const leading = text.length - text.trimStart().length;
+  const part = (marker: string, { body, start }: Chunk): ThreadPart => ({
+    marker,
+    body,
+    byteStart: Buffer.byteLength(text.slice(0, leading + start)),
+  });
+  if (graphemeLength(trimmed) <= limit) {
+    return [part('', { body: trimmed, start: 0 })];
+  }
+
+  // The marker width depends on the post count, which depends on the room
+  // left after the marker, so grow the estimate until it's self-consistent
+  let count = 2;
+  for (;;) {
+    const chunks = splitText(
+      trimmed,
+      limit - graphemeLength(threadMarker(count, count))
+    );
+    if (chunks.length <= count) {
+      return chunks.map((chunk, i) =>
+        part(threadMarker(i + 1, chunks.length), chunk)
+      );
+    }
+    count = chunks.length;
+  }
+}
+
+function threadMarker(index: number, count: number): string {
+  return `${index}/${count} `;
+}
+
+// A chunk of the text and the string index it starts at
+interface Chunk {
+  body: string;
+  start: number;
+}
+
+// Greedily cut chunks of at most `budget` graphemes off the front of the text
+function splitText(text: string, budget: number): Chunk[] {
+  if (budget < 1) {
+    throw new Error(`No room left for text in a ${budget} grapheme chunk`);
+  }
+
+  const chunks: Chunk[] = [];
+  let rest = text;
+  let start = 0;
+  while (graphemeLength(rest) > budget) {
+    const cut = findBreak(rest, budget);
+    chunks.push({ body: rest.slice(0, cut).trimEnd(), start });
+    const after = rest.slice(cut);
+    rest = after.trimStart();
+    start += cut + after.length - rest.length;
+  }
+  if (rest) chunks.push({ body: rest, start });
+  return chunks;
+}
+
+/**
+ * Index to cut `text` at so that the part before it is at most `budget`
+ * graphemes, choosing the best kind of break that still fills the chunk
+ * reasonably.
+ */
+function findBreak(text: string, budget: number): number {
+  const maxEnd = graphemeOffset(text, budget);
+
+  let best: { index: number; priority: number } | undefined;
+  let latest: number | undefined;
+  const whitespace = /\s+/g;
+  let match: RegExpExecArray | null;
+  while ((match = whitespace.exec(text)) && match.index <= maxEnd) {
+    if (match.index === 0) continue;
+    latest = match.index;
+    if (match.index < maxEnd * MIN_FILL) continue;
+
+    const priority = breakPriority(text, match.index, match[0]);
+    if (!best || priority >= best.priority) {
+      best = { index: match.index, priority };
+    }
+  }
+
+  // A single word longer than the budget has to be split inside it
+  return best?.index ?? latest ?? maxEnd;
+}
+
+function breakPriority(text: string, index: number, run: string): number {
+  if (/\n\s*\n/.test(run)) return 3;
+  if (run.includes('\n')) return 2;
+  // Sentence punctuation, possibly followed by closing quotes or brackets
+  if (/[.!?…。！？][)\]"'”’»]*$/.test(text.slice(0, index))) return 1;
+  return 0;
+}
+
+// String index just after the first `count` graphemes
+function graphemeOffset(text: string, count: number): number {
+  let seen = 0;
+  for (const { index } of segmenter.segment(text)) {
+    if (seen++ === count) return index;
+  }
+  return text.length;
+}
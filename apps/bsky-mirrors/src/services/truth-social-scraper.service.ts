@@ -1,34 +1,20 @@
-import puppeteer from 'puppeteer-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
-import { TweetData } from '../types';
-import { ScraperService } from './scraper-service';
+import type { Page } from 'puppeteer';
+import { TweetData, VideoMetadata } from '../types';
+import { ScrapeError, ScraperService } from './scraper-service';
+import { saveDebugArtifacts } from './debug-artifacts';
+import { BrowserManager } from './browser-manager';
+import { logger } from './logger';
 
-puppeteer.use(StealthPlugin());
+const log = logger.child({ component: 'truthsocial-scraper' });
 
 export class TruthSocialScraperService implements ScraperService {
-  private browser: any = null;
-  private readonly DEBUG: boolean = false;
   private lastScrapeTime: Map<string, Date> = new Map();
 
-  async initialize(): Promise<void> {
-    this.browser = await puppeteer.connect({
-      browserURL: 'http://localhost:9222',
-      defaultViewport: null,
-    });
-  }
-
-  async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-    }
-  }
+  constructor(private browsers: BrowserManager) {}
 
   async getLatestTweets(truthProfileUrl: string): Promise<TweetData[]> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized');
-    }
   
-    const page = await this.browser.newPage();
+    const page = await this.browsers.acquirePage();
     try {
       await page.setViewport({ width: 1280, height: 800 });
       await page.setUserAgent(
@@ -74,15 +60,15 @@ export class TruthSocialScraperService implements ScraperService {
         // Optional: Stop scrolling if no new tweets were found in this batch
         if (newTweets.length === 0 || 
             newTweets.every(t => initialTweets.some(it => it.id === t.id))) {
-          if (this.DEBUG) {
-            console.log(`No new tweets found after scroll ${i+1}. Stopping.`);
-          }
+          log.debug(`No new tweets found after scroll ${i+1}. Stopping.`);
           break;
         }
       }
   
-      if (this.DEBUG) {
-        console.log(`Found ${allTweets.length} total tweets after scrolling`);
+      log.debug(`Found ${allTweets.length} total tweets after scrolling`);
+      await saveDebugArtifacts(page, 'truthsocial-page');
+      if (allTweets.length === 0) {
+        throw new ScrapeError('No posts found on the page');
       }
   
       // Final deduplication to ensure uniqueness
@@ -95,18 +81,23 @@ export class TruthSocialScraperService implements ScraperService {
         return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
       });
   
+    } catch (error) {
+      throw await ScrapeError.from(error, page);
     } finally {
-      await page.close();
+      await this.browsers.releasePage(page);
     }
   }
   
-  private async extractTweetsFromPage(
-    page: any,
+  // Public so the fixture harness can run it against saved pages
+  async extractTweetsFromPage(
+    page: Page,
     profileUrl: string
   ): Promise<TweetData[]> {
     // First get the post information
-    const posts = await page.evaluate((profileUrl: string) => {
+    const { posts, errors } = await page.evaluate((profileUrl: string) => {
       const extractedPosts: any[] = [];
+      // Reported back rather than logged in the page, where nobody sees them
+      const errors: string[] = [];
       
       // Get all status divs
       const postElements = document.querySelectorAll('[data-testid="status"]');
@@ -117,9 +108,13 @@ export class TruthSocialScraperService implements ScraperService {
           const wrapper = post.querySelector('.status__wrapper');
           if (!wrapper) return;
                   
-          // Skip retweets
-          const retweetButton = wrapper.querySelector('button[title="ReTruth"].active');
-          if (retweetButton) return;
+          // ReTruths are attributed to the original author's account
+          const isReTruth = !!wrapper.querySelector('button[title="ReTruth"].active');
+          // Pinned truths are labelled above the author line
+          const pinned = Array.from(wrapper.querySelectorAll('div, span')).some(
+            (el) => el.childElementCount === 0 && /^pinned( truth)?$/i.test(el.textContent?.trim() || '')
+          );
+          const authorHandle = wrapper.querySelector('a[href^="/@"]')?.getAttribute('href')?.slice(2);
   
           // Extract post content
           const contentElement = wrapper.querySelector('[data-markup="true"]');
@@ -134,7 +129,7 @@ export class TruthSocialScraperService implements ScraperService {
           const id = postLink ? postLink.split('/').pop() || '' : '';
           
           // Extract thumbnail URLs and video URLs together
-          const videoData: { videoUrl: string, thumbnailUrl: string }[] = [];
+          const videoData: { videoUrl: string, thumbnailUrl: string, metadata: VideoMetadata }[] = [];
           wrapper.querySelectorAll('video').forEach((video: Element) => {
             // Get video source and its thumbnail
             const sources = video.querySelectorAll('source');
@@ -144,27 +139,71 @@ export class TruthSocialScraperService implements ScraperService {
             const posterUrl = video.getAttribute('poster');
             const thumbnailImg = wrapper.querySelector('.media-gallery img[src*="/original/"]');
             const thumbnailUrl = posterUrl || thumbnailImg?.getAttribute('src');
+
+            // Media description and any caption tracks
+            const alt = video.getAttribute('aria-label') || video.getAttribute('title') || undefined;
+            const captions: { url: string, lang: string }[] = [];
+            video.querySelectorAll('track[kind="captions"], track[kind="subtitles"]').forEach((track: Element) => {
+              const src = (track as HTMLTrackElement).src;
+              if (src) {
+                captions.push({ url: src, lang: track.getAttribute('srclang') || 'en' });
+              }
+            });
   
             if (videoUrl && thumbnailUrl) {
-              videoData.push({ videoUrl, thumbnailUrl });
+              videoData.push({ videoUrl, thumbnailUrl, metadata: { alt, captions } });
             }
           });
   
           // Extract image URLs
           const imageUrls: string[] = [];
+          const imageAlts: (string | undefined)[] = [];
           wrapper.querySelectorAll('.media-gallery img').forEach((img: Element) => {
             const src = (img as HTMLImageElement).src;
             if (src && !videoData.some(v => v.thumbnailUrl === src)) { // Don't duplicate video thumbnails
               imageUrls.push(src.replace('/small/', '/original/'));
+              // Media descriptions are rendered as the image's alt text
+              imageAlts.push(img.getAttribute('alt') || undefined);
             }
           });
   
+          // "Replying to @a @b" header on replies
+          const replyMentions: string[] = [];
+          wrapper.querySelectorAll('.reply-mentions a[href*="/@"]').forEach((a: Element) => {
+            const handle = (a.getAttribute('href') || '').split('/@').pop();
+            if (handle) replyMentions.push(handle.toLowerCase());
+          });
+
+          // Quoted truths are embedded as a nested status card
+          const quoted = wrapper.querySelector('[data-testid="quoted-status"]');
+          let kind = 'original';
+          let originalAuthor: string | undefined;
+          let originalUrl: string | undefined;
+          if (isReTruth) {
+            kind = 'repost';
+            originalAuthor = authorHandle;
+            originalUrl = postLink ? new URL(postLink, window.location.origin).href : undefined;
+          } else if (quoted) {
+            kind = 'quote';
+            originalAuthor = quoted.querySelector('a[href^="/@"]')?.getAttribute('href')?.slice(2);
+            const quotedLink = quoted.querySelector('a[href*="posts"]')?.getAttribute('href');
+            originalUrl = quotedLink ? new URL(quotedLink, window.location.origin).href : undefined;
+          } else if (replyMentions.length > 0) {
+            kind = 'reply';
+          }
+
           if (id) {
             extractedPosts.push({
               id,
+              replyMentions,
+              kind,
+              pinned,
+              originalAuthor,
+              originalUrl,
               text: text,
               timestamp: timestamp ? new Date(timestamp).toISOString() : new Date().toISOString(),
               imageUrls,
+              imageAlts,
               videoData,
               sourceAccount: profileUrl,
               platform: 'truthsocial',
@@ -172,13 +211,26 @@ export class TruthSocialScraperService implements ScraperService {
             });
           }
         } catch (error) {
-          console.error('Error extracting post:', error);
+          errors.push(error instanceof Error ? error.message : String(error));
         }
       });
       
-      return extractedPosts;
+      return { posts: extractedPosts, errors };
     }, profileUrl);
+    for (const error of errors) {
+      log.debug(`Error extracting post: ${error}`);
+    }
   
+    // Replies to the account itself are thread continuations; look up which
+    // post they reply to
+    const username = this.extractUsernameFromUrl(profileUrl).toLowerCase();
+    for (const post of posts) {
+      if (post.replyMentions?.includes(username)) {
+        post.inReplyToId = await this.lookupSelfReplyParent(page, post.id);
+      }
+      delete post.replyMentions;
+    }
+
     // Now fetch each media item using Puppeteer's page context
     const tweetsWithMedia = await Promise.all(
       posts.map(async (post: any) => {
@@ -187,8 +239,8 @@ export class TruthSocialScraperService implements ScraperService {
           const images = await Promise.all(
             post.imageUrls.map(async (url: string) => {
               try {
-                const imagePage = await this.browser.newPage();
-                try {
+                // On a page of its own, but sharing the profile page's place in the pool
+                return await this.browsers.withChildPage(page, async (imagePage) => {
                   await imagePage.goto(url, {
                     waitUntil: 'networkidle0',
                     timeout: 10000
@@ -210,26 +262,28 @@ export class TruthSocialScraperService implements ScraperService {
                   const base64Data = base64Image.replace(/^data:image\/\w+;base64,/, '');
                   const imageBuffer = Buffer.from(base64Data, 'base64');
                   return imageBuffer;
-                } finally {
-                  await imagePage.close();
-                }
+                });
               } catch (error) {
-                console.error(`Error capturing image from ${url}:`, error);
+                log.error(`Error capturing image from ${url}`, error);
                 return null;
               }
             })
           );
   
-          post.images = images.filter(img => img !== null);
+          // Keep alt text aligned with the images that were captured
+          const captured = images
+            .map((img, i) => ({ img, alt: post.imageAlts?.[i] }))
+            .filter(c => c.img !== null);
+          post.images = captured.map(c => c.img);
+          post.imageMetadata = captured.map(c => ({ alt: c.alt }));
         }
   
         // Handle video thumbnails
         if (post.videoData && post.videoData.length > 0) {
           const thumbnails = await Promise.all(
-            post.videoData.map(async (data: { videoUrl: string, thumbnailUrl: string }) => {
+            post.videoData.map(async (data: { videoUrl: string, thumbnailUrl: string, metadata: VideoMetadata }) => {
               try {
-                const imagePage = await this.browser.newPage();
-                try {
+                return await this.browsers.withChildPage(page, async (imagePage) => {
                   await imagePage.goto(data.thumbnailUrl, {
                     waitUntil: 'networkidle0',
                     timeout: 10000
@@ -252,27 +306,30 @@ export class TruthSocialScraperService implements ScraperService {
                   const imageBuffer = Buffer.from(base64Data, 'base64');
                   return {
                     videoUrl: data.videoUrl,
+                    metadata: data.metadata,
                     thumbnail: imageBuffer
                   };
-                } finally {
-                  await imagePage.close();
-                }
+                });
               } catch (error) {
-                console.error(`Error capturing thumbnail from ${data.thumbnailUrl}:`, error);
+                log.error(`Error capturing thumbnail from ${data.thumbnailUrl}`, error);
                 return {
                   videoUrl: data.videoUrl,
+                  metadata: data.metadata,
                   thumbnail: null
                 };
               }
             })
           );
   
-          post.videos = thumbnails.map(t => t.videoUrl).filter(Boolean);
+          const withUrls = thumbnails.filter(t => t.videoUrl);
+          post.videos = withUrls.map(t => t.videoUrl);
+          post.videoMetadata = withUrls.map(t => t.metadata);
           post.videoThumbnails = thumbnails.map(t => t.thumbnail).filter(Boolean);
         }
   
         // Clean up intermediate data
         delete post.imageUrls;
+        delete post.imageAlts;
         delete post.videoData;
         return post;
       })
@@ -281,6 +338,28 @@ export class TruthSocialScraperService implements ScraperService {
     return tweetsWithMedia;
   }
   
+  // Ask the site's own status API, from inside the page so it carries the
+  // browser's session, which post a status replies to. Only same-account
+  // replies count.
+  private async lookupSelfReplyParent(
+    page: Page,
+    statusId: string
+  ): Promise<string | undefined> {
+    try {
+      return await page.evaluate(async (statusId: string) => {
+        const response = await fetch(`/api/v1/statuses/${statusId}`);
+        if (!response.ok) return undefined;
+        const status = await response.json();
+        return status.in_reply_to_account_id === status.account?.id
+          ? status.in_reply_to_id || undefined
+          : undefined;
+      }, statusId);
+    } catch (error) {
+      log.error(`Error looking up reply parent of ${statusId}`, error);
+      return undefined;
+    }
+  }
+
   // Helper method to extract username from profile URL
   private extractUsernameFromUrl(url: string): string {
     const match = url.match(/@([^/]+)/);
@@ -1,52 +1,39 @@
-import puppeteer from 'puppeteer-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
-import { TweetData } from '../types';
-import { ScraperService } from './scraper-service';
+import type { Page, PuppeteerLifeCycleEvent } from 'puppeteer';
+import { PostKind, TweetData } from '../types';
+import { ScrapeError, ScraperService } from './scraper-service';
+import { saveDebugArtifacts } from './debug-artifacts';
+import { BrowserManager } from './browser-manager';
+import { logger } from './logger';
 
-puppeteer.use(StealthPlugin());
+const log = logger.child({ component: 'twitter-scraper' });
 
 export class TwitterScraperService implements ScraperService{
-  private browser: any = null;
-  private readonly DEBUG: boolean = true;
   private lastScrapeTime: Map<string, Date> = new Map();
 
-  async initialize(): Promise<void> {
-    this.browser = await puppeteer.connect({
-      browserURL: 'http://localhost:9222',
-      defaultViewport: null,
-    });
-  }
-
-  async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-    }
-  }
+  constructor(private browsers: BrowserManager) {}
 
-  private async resolveShortUrl(shortUrl: string): Promise<string> {
-    const page = await this.browser.newPage();
+  // Follows the redirect on an extra page of the scrape holding `parent`
+  private async resolveShortUrl(shortUrl: string, parent: Page): Promise<string> {
     try {
-      // Set a short timeout since we just need the redirect
-      await page.setDefaultNavigationTimeout(10000);
+      return await this.browsers.withChildPage(parent, async (page) => {
+        // Set a short timeout since we just need the redirect
+        await page.setDefaultNavigationTimeout(10000);
 
-      // Navigate to the URL
-      await page.goto(shortUrl, {
-        waitUntil: 'networkidle0',
-      });
+        // Navigate to the URL
+        await page.goto(shortUrl, {
+          waitUntil: 'networkidle0',
+        });
       
-      // Get the final URL
-      const finalUrl = page.url();
+        // Get the final URL
+        const finalUrl = page.url();
       
-      if (this.DEBUG) {
-        console.log(`Resolved ${shortUrl} to ${finalUrl}`);
-      }
+        log.debug(`Resolved ${shortUrl} to ${finalUrl}`);
 
-      return finalUrl;
+        return finalUrl;
+      });
     } catch (error) {
-      console.error(`Error resolving short URL ${shortUrl}:`, error);
+      log.error(`Error resolving short URL ${shortUrl}`, error);
       return shortUrl;
-    } finally {
-      await page.close();
     }
   }
 
@@ -56,46 +43,40 @@ export class TwitterScraperService implements ScraperService{
 
     const tweetDate = new Date(tweetTimestamp);
     const twoMinutesBeforeLastScrape = new Date(lastScrape.getTime() - 2 * 60 * 1000);
-    console.log(tweetTimestamp + ' comparing ' + tweetDate + ' to ' + twoMinutesBeforeLastScrape);
+    log.debug(tweetTimestamp + ' comparing ' + tweetDate + ' to ' + twoMinutesBeforeLastScrape);
 
     return tweetDate > twoMinutesBeforeLastScrape;
   }
 
-  private async resolveVideoUrls(videoLinks: string[], tweetTimestamp: string, twitterUrl: string): Promise<string[]> {
+  private async resolveVideoUrls(videoLinks: string[], tweetTimestamp: string, twitterUrl: string, page: Page): Promise<string[]> {
     if (!this.shouldResolveVideoUrls(tweetTimestamp, twitterUrl)) {
-      if (this.DEBUG) {
-        console.log(`Skipping video resolution for tweet from ${tweetTimestamp} - older than 2 minutes before last scrape`);
-      }
+      log.debug(`Skipping video resolution for tweet from ${tweetTimestamp} - older than 2 minutes before last scrape`);
       return videoLinks;
     }
 
     const resolvedLinks: string[] = [];
     for (const link of videoLinks) {
       try {
-        const resolvedUrl = await this.resolveShortUrl(link);
+        const resolvedUrl = await this.resolveShortUrl(link, page);
         // if (resolvedUrl !== link) { 
         resolvedLinks.push(resolvedUrl);
         // }
       } catch (error) {
-        console.error(`Failed to resolve video URL ${link}:`, error);
+        log.error(`Failed to resolve video URL ${link}`, error);
       }
     }
     return resolvedLinks;
   }
 
   async getLatestTweets(twitterUrl: string): Promise<TweetData[]> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized');
-    }
-
-    const page = await this.browser.newPage();
+    const page = await this.browsers.acquirePage();
     try {
       await page.setViewport({ width: 1280, height: 800 });
       await page.setUserAgent(
         'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
       );
 
-      const waitCondition = ['domcontentloaded', 'load'];
+      const waitCondition: PuppeteerLifeCycleEvent[] = ['domcontentloaded', 'load'];
       await page.goto(twitterUrl, {
         waitUntil: waitCondition,
         timeout: 30000,
@@ -105,16 +86,17 @@ export class TwitterScraperService implements ScraperService{
         timeout: 10000,
       });
 
-      if (this.DEBUG) {
-        await page.screenshot({ path: 'twitter-page.png' });
-      }
+      await saveDebugArtifacts(page, 'twitter-page');
 
       const tweets = await this.extractTweetsFromPage(page, twitterUrl);
+      if (tweets.length === 0) {
+        throw new ScrapeError('No posts found on the page');
+      }
       
       // Resolve video URLs for eligible tweets
       for (const tweet of tweets) {
         if (tweet.videos && tweet.videos.length > 0) {
-          const resolvedUrls = await this.resolveVideoUrls(tweet.videos, tweet.timestamp, twitterUrl);
+          const resolvedUrls = await this.resolveVideoUrls(tweet.videos, tweet.timestamp, twitterUrl, page);
           if (resolvedUrls.length > 0) {
             tweet.videos = resolvedUrls;
           }
@@ -125,22 +107,45 @@ export class TwitterScraperService implements ScraperService{
       this.lastScrapeTime.set(twitterUrl, new Date());
 
       return tweets;
+    } catch (error) {
+      throw await ScrapeError.from(error, page);
     } finally {
-      await page.close();
+      await this.browsers.releasePage(page);
     }
   }
 
-  private async extractTweetsFromPage(page: any, twitterUrl: string): Promise<TweetData[]> {
+  // Public so the fixture harness can run it against saved pages
+  async extractTweetsFromPage(page: Page, twitterUrl: string): Promise<TweetData[]> {
     return await page.evaluate((twitterUrl: any) => {
       const extractedTweets: Array<TweetData> = [];
       const tweetElements = document.querySelectorAll('article[data-testid="tweet"]');
+      const profileHandle = new URL(twitterUrl).pathname.split('/')[1]?.toLowerCase();
+      let previousTweet: { id: string; author: string } | undefined;
 
       tweetElements.forEach((tweet: Element) => {
+        const authorLink = tweet.querySelector('[data-testid="User-Name"] a[href^="/"]');
+        const author = (authorLink?.getAttribute('href') || '').slice(1).toLowerCase();
+
+        // A reply to the account itself shows "Replying to @handle" and sits
+        // directly below its parent in the timeline
+        let inReplyToId: string | undefined;
+        const replyingTo = Array.from(tweet.querySelectorAll('div')).find(
+          (el) => el.childElementCount > 0 && el.textContent?.startsWith('Replying to')
+        );
+        if (replyingTo && previousTweet && previousTweet.author === author) {
+          const handles = Array.from(replyingTo.querySelectorAll('a[href^="/"]'))
+            .map((a) => (a.getAttribute('href') || '').slice(1).toLowerCase());
+          if (handles.includes(profileHandle)) {
+            inReplyToId = previousTweet.id;
+          }
+        }
+
         const textElement = tweet.querySelector('[data-testid="tweetText"]');
         const timeElement = tweet.querySelector('time');
 
         // Extract images
         const images: string[] = [];
+        const imageMetadata: { alt?: string }[] = [];
         const bgImageElements = tweet.querySelectorAll('[style*="background-image"]');
         bgImageElements.forEach((el: Element) => {
           const style = el.getAttribute('style') || '';
@@ -155,6 +160,10 @@ export class TwitterScraperService implements ScraperService{
                     .replace('?format=jpg', '?format=jpg&name=large')
                     .replace('?format=png', '?format=png&name=large');
                   images.push(fullResUrl);
+
+                  // X labels photos with their alt text, or just "Image" when there is none
+                  const label = el.closest('[aria-label]')?.getAttribute('aria-label');
+                  imageMetadata.push({ alt: label && label !== 'Image' ? label : undefined });
                 }
           }
         });
@@ -215,17 +224,50 @@ export class TwitterScraperService implements ScraperService{
           }
         }
 
+        // Reposts are labelled in the social context line above the tweet;
+        // quotes embed the quoted tweet as a nested link with its own author
+        let kind: PostKind = 'original';
+        let originalAuthor: string | undefined;
+        let originalUrl: string | undefined;
+        const socialContext = tweet.querySelector('[data-testid="socialContext"]')?.textContent || '';
+        const quoted = tweet.querySelector('div[role="link"] [data-testid="User-Name"]');
+        if (/reposted/i.test(socialContext)) {
+          kind = 'repost';
+          originalAuthor = author || undefined;
+          originalUrl = (timeElement?.closest('a') as HTMLAnchorElement | null)?.href;
+        } else if (quoted) {
+          kind = 'quote';
+          const handle = Array.from(quoted.querySelectorAll('span'))
+            .map((span) => span.textContent || '')
+            .find((t) => t.startsWith('@'));
+          originalAuthor = handle?.slice(1);
+          // The quoted tweet's own status link, not one of its photo links
+          const quotedLink = quoted.closest('div[role="link"]')
+            ?.querySelector('a[href*="/status/"]')?.getAttribute('href')
+            ?.match(/^\/[^/]+\/status\/\d+/)?.[0];
+          originalUrl = quotedLink ? new URL(quotedLink, window.location.origin).href : undefined;
+        } else if (replyingTo) {
+          kind = 'reply';
+        }
+
         if (text && timestamp) {
           const id = `${text.slice(0, 20)}_${timestamp}`;
+          previousTweet = { id, author };
           const extracted = {
             id: id,
             text: text,
             timestamp: timestamp,
             images: images,
+            imageMetadata: imageMetadata,
             videos: videoLinks,
             sourceAccount: twitterUrl,
             postedToBluesky: false,
-            platform:'twitter'
+            platform:'twitter',
+            inReplyToId: inReplyToId,
+            kind: kind,
+            pinned: /pinned/i.test(socialContext),
+            originalAuthor: originalAuthor,
+            originalUrl: originalUrl
           };
           extractedTweets.push(extracted);
         }
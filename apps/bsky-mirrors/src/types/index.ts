@@ -3,12 +3,125 @@ export interface TweetData {
   id: string;
   text: string;
   timestamp: string;
-  images: string[];
+  images: (string | Buffer)[];  // URLs, or bytes the scraper downloaded
+  imageMetadata?: ImageMetadata[];  // Parallel to images
   videos: string[];
   videoThumbnails?: Buffer[];  // Add this new field
+  videoMetadata?: VideoMetadata[];  // Parallel to videos
   postedToBluesky: boolean;
   sourceAccount: string;
   platform: string;
+  inReplyToId?: string;  // Source ID of the post this replies to, if any
+  kind?: PostKind;
+  pinned?: boolean;  // Pinned to the top of the profile, however old
+  originalAuthor?: string;  // Handle of the reposted or quoted author
+  originalUrl?: string;  // Link to the reposted or quoted post
+  quoteCard?: ExternalCard;  // Link card to show instead of media
+  bluesky?: BlueskyMirror;  // Set once the post has been mirrored
+  retry?: RetryState;  // Set once a post attempt has failed
+  skippedBy?: string;  // Filter rule that kept the post from being mirrored
+}
+
+export type PostErrorKind = 'retryable' | 'permanent';
+
+export interface RetryState {
+  attempts: number;
+  lastError: string;
+  lastErrorKind: PostErrorKind;
+  lastAttemptAt: string;
+  nextAttemptAt?: string;  // Unset once dead-lettered
+  deadLetteredAt?: string;
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;  // Delay after the first failure, doubled each time
+  maxDelayMs: number;
+  maxAgeMs: number;  // Source posts older than this are no longer retried
+}
+
+// Where breakage alerts go once a mirror's scrapes keep failing
+export interface AlertOptions {
+  failureThreshold: number;  // Consecutive failed scrapes before alerting
+  webhookUrl?: string;
+  bluesky?: {
+    identifier: string;
+    password: string;
+    pdsUrl?: string;
+    operator: string;  // Handle or DID to notify
+    via: 'post' | 'dm';
+  };
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LoggingOptions {
+  level: LogLevel;
+  format: 'text' | 'json';
+  // Save screenshots and HTML of scraped pages in each mirror's debug dir
+  debugArtifacts: boolean;
+}
+
+// Where in a check a mirror failed, as counted by the metrics
+export type FailureStage = 'scrape' | 'dedupe' | 'upload' | 'post';
+
+export interface MonitoringOptions {
+  port: number;
+  host?: string;  // All interfaces if omitted
+  unhealthyAfterMs?: number;  // Derived from the check intervals if omitted
+}
+
+// The browser the scrapers share
+export interface BrowserOptions {
+  mode: 'attach' | 'launch';  // Use a running Chrome, or launch a headless one
+  endpoint: string;  // DevTools URL (http://) or WebSocket (ws://) to attach to
+  args: string[];  // Extra Chrome flags when launching
+  maxPages: number;  // Pages open at once across all scrapers
+  acquireTimeoutMs: number;  // How long a scrape waits for a free page
+  leaseTimeoutMs: number;  // Pages kept longer than this are closed and reclaimed
+}
+
+export type PostKind = 'original' | 'repost' | 'quote' | 'reply';
+
+// What to do with posts the account reposted from someone else
+export type RepostPolicy = 'skip' | 'attribute' | 'quote';
+
+export interface ExternalCard {
+  uri: string;
+  title: string;
+  description: string;
+}
+
+export interface PostRef {
+  uri: string;
+  cid: string;
+}
+
+// Where a reply attaches: the thread's first post and the post directly above
+export interface ReplyRefs {
+  root: PostRef;
+  parent: PostRef;
+}
+
+// The Bluesky copy of a source post
+export interface BlueskyMirror {
+  posts: PostRef[];  // Every post created, in thread order
+  root: PostRef;  // Thread root, which is the parent's root for mirrored replies
+  postedAt: string;
+}
+
+export interface ImageMetadata {
+  alt?: string;
+}
+
+export interface VideoCaption {
+  url: string;
+  lang: string;
+}
+
+export interface VideoMetadata {
+  alt?: string;
+  captions?: VideoCaption[];
 }
 
 export interface AccountPair {
@@ -19,9 +132,68 @@ export interface AccountPair {
     password: string;
   };
   storageDir: string;
+  checkIntervalMs?: number;  // Overrides AgentConfig.CHECK_INTERVAL_MS
+  pdsUrl?: string;  // Defaults to https://bsky.social, 'auto' resolves it from the handle
+  // Delete Bluesky copies of source posts that disappear from the source
+  deletionSync?: {
+    confirmationDelayMs: number;  // How long a post must stay missing
+  };
+  repostPolicy?: RepostPolicy;  // Defaults to 'skip'
+  mentions?: MentionPolicy;
+  filters?: ContentFilters;
+}
+
+// Per-mirror rules deciding which source posts are mirrored at all
+export interface ContentFilters {
+  includeKeywords?: string[];  // Case-insensitive; with includePatterns, one must match
+  includePatterns?: string[];  // Case-insensitive regexes
+  excludeKeywords?: string[];
+  excludePatterns?: string[];
+  skipReplies?: boolean;  // Replies to others; own thread continuations are kept
+  skipWithoutMedia?: boolean;
+  minLength?: number;  // In graphemes
+  maxAgeMs?: number;
+}
+
+// How @mentions of source accounts are carried over to Bluesky
+export interface MentionPolicy {
+  handles?: Record<string, string>;  // Lower-case source handle -> Bluesky DID
+  unmapped?: 'link' | 'plain';  // Defaults to 'link', to the source profile
+}
+
+export interface SchedulerOptions {
+  jitter: number;  // Random +/- fraction applied to every interval
+  minFactor: number;  // Fastest polling after activity, relative to the base interval
+  maxFactor: number;  // Slowest polling while quiet, relative to the base interval
+  backoffFactor: number;  // Interval growth per quiet check
 }
 
 export interface AgentConfig {
   accountPairs: AccountPair[];
   CHECK_INTERVAL_MS: number;
+  scheduler?: Partial<SchedulerOptions>;
+  retry?: Partial<RetryOptions>;
+  monitoring?: MonitoringOptions;
+  logging?: Partial<LoggingOptions>;
+  alerts?: AlertOptions;
+  browser?: Partial<BrowserOptions>;
+}
+
+export type MirrorOutcome =
+  | 'pending'
+  | 'posted'
+  | 'failed'
+  | 'duplicate'
+  | 'skipped'
+  | 'dead-lettered'
+  | 'deleted';
+
+export interface SeenEntry {
+  id: string;
+  outcome: MirrorOutcome;
+  timestamp: string;
+  updatedAt: string;
+  bluesky?: BlueskyMirror;
+  missingSince?: string;  // First time the post was absent from the source
+  skippedBy?: string;  // Rule that skipped the post
 }